@@ -0,0 +1,131 @@
+import { createHash } from "node:crypto"
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs"
+import { dirname } from "node:path"
+import { getConfig, MemosConfig } from "./config.js"
+import { getLogger } from "./logging.js"
+
+/** Every operation that changes memory or knowledge bases. */
+export const AUDITED_TOOLS = [
+  "add_message",
+  "add_feedback",
+  "delete_memory",
+  "create_knowledge_base",
+  "update_knowledge_base",
+  "add_kb_document",
+  "delete_kb_documents",
+  "remove_knowledge_base"
+] as const;
+
+export type AuditedTool = typeof AUDITED_TOOLS[number]
+
+/**
+ * `queued`: kept in the offline write queue; `partial`: a split write of
+ * which only some batches were saved; `duplicate`: dropped as identical to
+ * a recent write.
+ */
+export const AUDIT_OUTCOMES = ["success", "queued", "partial", "duplicate", "error"] as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[number]
+
+/** What an audited call acted on; IDs are recorded as the API returned them. */
+export interface AuditDetails {
+  user_id?: string
+  agent_id?: string
+  app_id?: string
+  /** Truncated SHA-256 of the conversation ID, which may be derived from message content. */
+  conversation_hash?: string
+  knowledgebase_id?: string
+  /** Memory, document or knowledge base IDs the call affected. */
+  ids?: string[]
+  task_ids?: string[]
+  /** Number of messages or files written. */
+  count?: number
+}
+
+/** One line of the audit log. */
+export interface AuditEntry extends AuditDetails {
+  time: string
+  tool: AuditedTool
+  outcome: AuditOutcome
+  /** SHA-256 of the API key, the same account scope tasks and cached searches use. */
+  account: string
+  error?: string
+}
+
+export interface AuditQuery {
+  /** ISO time, or a duration back from now such as `30m`, `24h` or `7d`. */
+  since?: string
+  until?: string
+  tool?: string[]
+  outcome?: string[]
+  limit?: number
+}
+
+const DURATION = /^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)$/i;
+const DURATION_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+export function hashConversationId(conversationId: string): string {
+  return createHash("sha256").update(conversationId).digest("hex").slice(0, 16);
+}
+
+/** Milliseconds since the epoch of an ISO time or a duration back from `now`. */
+export function parseAuditTime(value: string, now = Date.now()): number {
+  const duration = DURATION.exec(value.trim());
+  if (duration) return now - Number(duration[1]) * DURATION_MS[duration[2].toLowerCase()];
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time "${value}": use an ISO date such as 2025-01-31T12:00:00Z or a duration such as 24h or 7d`);
+  }
+  return time;
+}
+
+/**
+ * Append-only JSONL record of every mutation made through this machine,
+ * by the MCP tools and the CLI alike, including the ones that failed.
+ * Message and document content is never written, only IDs and counts.
+ */
+export class AuditLog {
+  constructor(private readonly options: Pick<MemosConfig, "audit" | "auditLog">) {}
+
+  record(entry: Omit<AuditEntry, "time">) {
+    if (!this.options.audit) return;
+    try {
+      mkdirSync(dirname(this.options.auditLog), { recursive: true });
+      appendFileSync(this.options.auditLog, JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n", { mode: 0o600 });
+    } catch (e) {
+      // The operation already ran; a missing audit entry must at least show up in the logs.
+      getLogger().error("audit_log_failed", { tool: entry.tool, outcome: entry.outcome, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  /** The account's entries that match `filter`, newest first. */
+  query(account: string, filter: AuditQuery = {}): AuditEntry[] {
+    if (!existsSync(this.options.auditLog)) return [];
+    const since = filter.since ? parseAuditTime(filter.since) : -Infinity;
+    const until = filter.until ? parseAuditTime(filter.until) : Infinity;
+
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(this.options.auditLog, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const time = Date.parse(entry.time);
+      if (entry.account !== account || time < since || time > until) continue;
+      if (filter.tool?.length && !filter.tool.includes(entry.tool)) continue;
+      if (filter.outcome?.length && !filter.outcome.includes(entry.outcome)) continue;
+      entries.push(entry);
+    }
+    return entries.reverse().slice(0, filter.limit ?? 50);
+  }
+}
+
+let auditLog: AuditLog | undefined;
+
+export function getAuditLog(): AuditLog {
+  if (!auditLog) auditLog = new AuditLog(getConfig());
+  return auditLog;
+}
@@ -0,0 +1,89 @@
+import { join } from "node:path"
+import { performance } from "node:perf_hooks"
+import { getConfig } from "../config.js"
+import { getLogger, loggableBody, LogLevel } from "../logging.js"
+import { getMetrics } from "../metrics.js"
+import { LocalBackend } from "./local.js"
+import { RemoteBackend } from "./remote.js"
+import { MemosBackend } from "./types.js"
+
+export type { MemosBackend } from "./types.js"
+export { LocalBackend } from "./local.js"
+export { RemoteBackend, queryMemos } from "./remote.js"
+export type { RequestOptions } from "./remote.js"
+
+/**
+ * Create the backend selected by the `backend` setting.
+ */
+export function createBackend(): MemosBackend {
+  const config = getConfig();
+  if (config.backend === "local") {
+    return new LocalBackend(join(config.localDir, "store.json"));
+  }
+  return new RemoteBackend();
+}
+
+/**
+ * Times and counts every request of another backend and logs it: failures
+ * as warnings, successes at debug level. Logged bodies are redacted and cut
+ * short.
+ */
+class InstrumentedBackend implements MemosBackend {
+  constructor(private readonly inner: MemosBackend) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get requiresApiKey() {
+    return this.inner.requiresApiKey;
+  }
+
+  async request(path: string, body: Record<string, any>, apiKey: string, source: string) {
+    const started = performance.now();
+    const elapsed = () => Math.round(performance.now() - started);
+    try {
+      const result = await this.inner.request(path, body, apiKey, source);
+      const duration_ms = elapsed();
+      getMetrics().request(path, duration_ms, true);
+      this.log("debug", "api_request", { endpoint: path, backend: this.name, duration_ms }, body);
+      return result;
+    } catch (e) {
+      const duration_ms = elapsed();
+      getMetrics().request(path, duration_ms, false);
+      this.log("warning", "api_error", {
+        endpoint: path,
+        backend: this.name,
+        duration_ms,
+        status: (e as { status?: number }).status,
+        error: e instanceof Error ? e.message : String(e)
+      }, body);
+      throw e;
+    }
+  }
+
+  /**
+   * The body is only prepared when the entry goes somewhere, and a body that
+   * cannot be prepared (e.g. a broken redaction pattern) is left out rather
+   * than failing the request it describes.
+   */
+  private log(level: LogLevel, event: string, fields: Record<string, unknown>, body: Record<string, any>) {
+    const logger = getLogger();
+    if (!logger.enabled(level)) return;
+    let logged: unknown;
+    try {
+      logged = loggableBody(body);
+    } catch (e) {
+      logged = `[not logged: ${e instanceof Error ? e.message : String(e)}]`;
+    }
+    logger.log(level, event, { ...fields, body: logged });
+  }
+}
+
+let instance: MemosBackend | undefined;
+
+/** The process-wide backend, created on first use. */
+export function getBackend(): MemosBackend {
+  if (!instance) instance = new InstrumentedBackend(createBackend());
+  return instance;
+}
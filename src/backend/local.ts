@@ -0,0 +1,524 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import { dirname } from "node:path"
+import dayjs from "dayjs"
+import { v4 as uuidv4 } from "uuid"
+import { MemosValidationError } from "../errors.js"
+import { MemosBackend } from "./types.js"
+
+interface LocalMemory {
+  id: string
+  user_id: string
+  conversation_id?: string
+  agent_id?: string
+  app_id?: string
+  kind: "fact" | "preference"
+  memory_key: string
+  memory_value: string
+  tags: string[]
+  create_time: string
+  update_time: string
+}
+
+interface LocalKnowledgebase {
+  id: string
+  name: string
+  description?: string
+  create_time: string
+}
+
+interface LocalKbFile {
+  id: string
+  knowledgebase_id: string
+  name: string
+  mime_type: string
+  size: number
+  status: "completed" | "failed"
+  error?: string
+  /** Extracted plain text, present only for text-like documents. */
+  text?: string
+  create_time: string
+}
+
+interface LocalStore {
+  version: 1
+  memories: LocalMemory[]
+  knowledgebases: LocalKnowledgebase[]
+  files: LocalKbFile[]
+}
+
+/** A searchable unit: a memory or a chunk of a knowledge base document. */
+interface SearchDocument {
+  tokens: string[]
+  memory?: LocalMemory
+  file?: LocalKbFile
+  chunk?: string
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const KB_CHUNK_CHARS = 800;
+
+const PREFERENCE_PATTERN = /\b(i (really |much |strongly )?(like|love|prefer|hate|dislike|enjoy)|i (don't|do not) (like|want)|my favou?rite)\b|我(很|最|更|比较|不太?)?(喜欢|讨厌|偏好|爱|想要)|偏好/i;
+
+const TEXT_MIME_PATTERN = /^(text\/|application\/(json|xml|x-yaml|yaml|javascript|x-sh))|\+(json|xml)$/i;
+
+function ok(data: unknown) {
+  return { code: 0, data, message: "ok" };
+}
+
+function now(): string {
+  return dayjs().format("YYYY-MM-DD HH:mm:ss.SSS");
+}
+
+/**
+ * Split text into search terms: latin words/numbers as-is, Han characters as
+ * unigrams plus bigrams so Chinese text matches without a segmenter.
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/\p{Script=Han}+|[\p{L}\p{N}_]+/gu)) {
+    const word = match[0];
+    if (/\p{Script=Han}/u.test(word)) {
+      const chars = [...word];
+      chars.forEach((c, i) => {
+        tokens.push(c);
+        if (i + 1 < chars.length) tokens.push(c + chars[i + 1]);
+      });
+    } else {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Okapi BM25 scores of every document against the query, in document order.
+ */
+function bm25(query: string[], docs: SearchDocument[]): number[] {
+  const avgLength = docs.reduce((sum, d) => sum + d.tokens.length, 0) / (docs.length || 1);
+  const documentFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc.tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const terms = [...new Set(query)];
+  return docs.map(doc => {
+    const frequency = new Map<string, number>();
+    for (const t of doc.tokens) frequency.set(t, (frequency.get(t) ?? 0) + 1);
+
+    let score = 0;
+    for (const term of terms) {
+      const tf = frequency.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.tokens.length / (avgLength || 1)));
+    }
+    return score;
+  });
+}
+
+/** Memories of the request's agent and app; a request without them sees all of the user's memories. */
+function inScope(memory: LocalMemory, body: Record<string, any>): boolean {
+  return (!body.agent_id || memory.agent_id === body.agent_id) && (!body.app_id || memory.app_id === body.app_id);
+}
+
+/**
+ * Evaluate a MemOS-style filter (`and`/`or` lists, field equality and
+ * `gt`/`gte`/`lt`/`lte`/`ne`/`in`/`contains` comparisons) against a record.
+ */
+function matchesFilter(record: Record<string, any>, filter: Record<string, any> | undefined): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "and" && Array.isArray(condition)) return condition.every(c => matchesFilter(record, c));
+    if (key === "or" && Array.isArray(condition)) return condition.some(c => matchesFilter(record, c));
+
+    const value = record[key];
+    if (condition === null || typeof condition !== "object" || Array.isArray(condition)) {
+      return value === condition;
+    }
+    return Object.entries(condition).every(([op, expected]: [string, any]) => {
+      switch (op) {
+        case "eq": return value === expected;
+        case "ne": return value !== expected;
+        case "gt": return value !== undefined && value > expected;
+        case "gte": return value !== undefined && value >= expected;
+        case "lt": return value !== undefined && value < expected;
+        case "lte": return value !== undefined && value <= expected;
+        case "in": return Array.isArray(expected) && expected.includes(value);
+        case "contains": return Array.isArray(value) ? value.includes(expected) : String(value ?? "").includes(String(expected));
+        default: return false;
+      }
+    });
+  });
+}
+
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > KB_CHUNK_CHARS) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+function toFactDetail(m: LocalMemory, relativity?: number) {
+  return {
+    id: m.id,
+    memory_key: m.memory_key,
+    memory_value: m.memory_value,
+    memory_type: "LongTermMemory",
+    create_time: m.create_time,
+    conversation_id: m.conversation_id,
+    status: "activated",
+    confidence: 1,
+    tags: m.tags,
+    update_time: m.update_time,
+    ...(relativity !== undefined ? { relativity } : {})
+  };
+}
+
+function toPreferenceDetail(m: LocalMemory, relativity?: number) {
+  return {
+    id: m.id,
+    preference_type: "explicit_preference",
+    preference: m.memory_value,
+    reasoning: "",
+    create_time: m.create_time,
+    conversation_id: m.conversation_id,
+    status: "activated",
+    update_time: m.update_time,
+    ...(relativity !== undefined ? { relativity } : {})
+  };
+}
+
+/** `current`/`size` paging as the API does it: 1-based pages of at most 50. */
+function paging(body: Record<string, any>) {
+  const current = Math.max(1, body.current ?? 1);
+  const size = Math.min(50, Math.max(1, body.size ?? 20));
+  return { current, size, page: <T>(items: T[]) => items.slice((current - 1) * size, current * size) };
+}
+
+function toFileDetail(f: LocalKbFile) {
+  const { text, ...detail } = f;
+  return detail;
+}
+
+/**
+ * File-based backend for offline use. Everything lives in one JSON document
+ * under `MEMOS_LOCAL_DIR`; search is BM25 over memories and knowledge base
+ * text, and no extraction model is involved: each message becomes a memory,
+ * and first-person likes/dislikes also become preferences.
+ */
+export class LocalBackend implements MemosBackend {
+  readonly name = "local"
+  readonly requiresApiKey = false
+
+  constructor(private readonly file: string) {}
+
+  private load(): LocalStore {
+    if (!existsSync(this.file)) {
+      return { version: 1, memories: [], knowledgebases: [], files: [] };
+    }
+    return JSON.parse(readFileSync(this.file, "utf8")) as LocalStore;
+  }
+
+  private save(store: LocalStore) {
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = this.file + ".tmp";
+    writeFileSync(tmp, JSON.stringify(store), { encoding: "utf8", mode: 0o600 });
+    renameSync(tmp, this.file);
+  }
+
+  async request(path: string, body: Record<string, any>) {
+    switch (path) {
+      case "/add/message": return this.addMessage(body);
+      case "/add/feedback": return this.addFeedback(body);
+      case "/search/memory": return this.searchMemory(body);
+      case "/get/memory": return this.getMemory(body);
+      case "/delete/memory": return this.deleteMemory(body);
+      // Every local write finishes before it returns, so any task is complete.
+      case "/get/task-status": return ok({ task_id: body.task_id, status: "completed" });
+      case "/create/knowledgebase": return this.createKnowledgebase(body);
+      case "/delete/knowledgebase": return this.deleteKnowledgebase(body);
+      case "/get/knowledgebase": return this.getKnowledgebase(body);
+      case "/update/knowledgebase": return this.updateKnowledgebase(body);
+      case "/add/knowledgebase-file": return this.addKnowledgebaseFile(body);
+      case "/get/knowledgebase-file": return this.getKnowledgebaseFile(body);
+      case "/get/knowledgebase-file-list": return this.getKnowledgebaseFileList(body);
+      case "/delete/knowledgebase-file": return this.deleteKnowledgebaseFile(body);
+      default:
+        throw new MemosValidationError(404, `The local backend does not support ${path}`);
+    }
+  }
+
+  private addMessage(body: Record<string, any>) {
+    const store = this.load();
+    for (const message of body.messages ?? []) {
+      const content = String(message.content ?? "").trim();
+      if (!content) continue;
+
+      const fromAssistant = message.role === "assistant";
+      const time = message.chat_time || now();
+      const base = {
+        user_id: body.user_id,
+        conversation_id: body.conversation_id,
+        agent_id: body.agent_id,
+        app_id: body.app_id,
+        memory_key: content.slice(0, 40),
+        tags: [message.role],
+        create_time: time,
+        update_time: time
+      };
+      store.memories.push({
+        id: uuidv4(),
+        ...base,
+        kind: "fact",
+        memory_value: fromAssistant ? `[assistant opinion] ${content}` : content
+      });
+      if (!fromAssistant && PREFERENCE_PATTERN.test(content)) {
+        store.memories.push({ id: uuidv4(), ...base, kind: "preference", memory_value: content });
+      }
+    }
+    this.save(store);
+    return ok({ success: true, task_id: uuidv4(), status: "completed" });
+  }
+
+  private addFeedback(body: Record<string, any>) {
+    const store = this.load();
+    const content = String(body.feedback_content ?? "").trim();
+    if (!content) throw new MemosValidationError(400, "feedback_content is required");
+
+    const time = body.feedback_time || now();
+    store.memories.push({
+      id: uuidv4(),
+      user_id: body.user_id,
+      conversation_id: body.conversation_id,
+      agent_id: body.agent_id,
+      app_id: body.app_id,
+      kind: "fact",
+      memory_key: content.slice(0, 40),
+      memory_value: content,
+      tags: ["feedback"],
+      create_time: time,
+      update_time: time
+    });
+    this.save(store);
+    return ok({ success: true, task_id: uuidv4(), status: "completed" });
+  }
+
+  private searchMemory(body: Record<string, any>) {
+    const store = this.load();
+    const memories = store.memories.filter(m => m.user_id === body.user_id && inScope(m, body) && matchesFilter(m, body.filter));
+
+    const docs: SearchDocument[] = memories.map(m => ({ memory: m, tokens: tokenize(m.memory_value) }));
+    const kbIds: string[] | undefined = body.knowledgebase_ids;
+    if (kbIds && kbIds.length > 0) {
+      const searchAll = kbIds.includes("all");
+      for (const f of store.files) {
+        if (!f.text || !(searchAll || kbIds.includes(f.knowledgebase_id))) continue;
+        for (const chunk of chunkText(f.text)) {
+          docs.push({ file: f, chunk, tokens: tokenize(chunk) });
+        }
+      }
+    }
+
+    const scores = bm25(tokenize(String(body.query ?? "")), docs);
+    const maxScore = Math.max(0, ...scores);
+    const threshold = body.relativity ?? 0;
+    const ranked = docs
+      .map((doc, i) => ({ doc, relativity: maxScore > 0 ? Number((scores[i] / maxScore).toFixed(4)) : 0 }))
+      .filter(r => r.relativity > 0 && r.relativity >= threshold)
+      .sort((a, b) => b.relativity - a.relativity);
+
+    const memoryLimit = body.memory_limit_number ?? 9;
+    const preferenceLimit = body.preference_limit_number ?? 9;
+
+    const memoryDetails = ranked
+      .filter(r => r.doc.file || r.doc.memory?.kind === "fact")
+      .slice(0, memoryLimit)
+      .map(({ doc, relativity }) => doc.file
+        ? {
+          id: doc.file.id,
+          memory_key: doc.file.name,
+          memory_value: doc.chunk,
+          memory_type: "KnowledgeBase",
+          knowledgebase_id: doc.file.knowledgebase_id,
+          create_time: doc.file.create_time,
+          relativity
+        }
+        : toFactDetail(doc.memory!, relativity));
+
+    const preferenceDetails = body.include_preference === false ? [] : ranked
+      .filter(r => r.doc.memory?.kind === "preference")
+      .slice(0, preferenceLimit)
+      .map(({ doc, relativity }) => toPreferenceDetail(doc.memory!, relativity));
+
+    return ok({
+      memory_detail_list: memoryDetails,
+      preference_detail_list: preferenceDetails,
+      tool_memory_detail_list: [],
+      skill_detail_list: []
+    });
+  }
+
+  private getMemory(body: Record<string, any>) {
+    const store = this.load();
+    const { current, size, page } = paging(body);
+
+    const mine = store.memories
+      .filter(m => m.user_id === body.user_id && inScope(m, body))
+      .sort((a, b) => b.create_time.localeCompare(a.create_time));
+    const facts = mine.filter(m => m.kind === "fact");
+    const preferences = body.include_preference === false ? [] : mine.filter(m => m.kind === "preference");
+
+    return ok({
+      memory_detail_list: page(facts).map(m => toFactDetail(m)),
+      preference_detail_list: page(preferences).map(m => toPreferenceDetail(m)),
+      tool_memory_detail_list: [],
+      total: facts.length,
+      current,
+      size
+    });
+  }
+
+  private deleteMemory(body: Record<string, any>) {
+    const store = this.load();
+    const userIds: string[] = body.user_ids ?? [];
+    const memoryIds = new Set<string>(body.memory_ids ?? []);
+    const before = store.memories.length;
+    store.memories = store.memories.filter(m => !(memoryIds.has(m.id) && userIds.includes(m.user_id)));
+    this.save(store);
+    return ok({ success: true, deleted_count: before - store.memories.length });
+  }
+
+  private createKnowledgebase(body: Record<string, any>) {
+    if (!body.knowledgebase_name) throw new MemosValidationError(400, "knowledgebase_name is required");
+    const store = this.load();
+    const kb: LocalKnowledgebase = {
+      id: uuidv4(),
+      name: body.knowledgebase_name,
+      description: body.knowledgebase_description,
+      create_time: now()
+    };
+    store.knowledgebases.push(kb);
+    this.save(store);
+    return ok({ knowledgebase_id: kb.id, knowledgebase_name: kb.name });
+  }
+
+  private getKnowledgebase(body: Record<string, any>) {
+    const store = this.load();
+    const { current, size, page } = paging(body);
+    const knowledgebases = [...store.knowledgebases].sort((a, b) => b.create_time.localeCompare(a.create_time));
+    return ok({
+      knowledgebase_detail_list: page(knowledgebases).map(kb => ({
+        knowledgebase_id: kb.id,
+        knowledgebase_name: kb.name,
+        knowledgebase_description: kb.description,
+        file_count: store.files.filter(f => f.knowledgebase_id === kb.id).length,
+        create_time: kb.create_time
+      })),
+      total: knowledgebases.length,
+      current,
+      size
+    });
+  }
+
+  private updateKnowledgebase(body: Record<string, any>) {
+    const store = this.load();
+    const kb = store.knowledgebases.find(kb => kb.id === body.knowledgebase_id);
+    if (!kb) throw new MemosValidationError(404, `Knowledge base not found: ${body.knowledgebase_id}`);
+    if (body.knowledgebase_name !== undefined) {
+      if (!body.knowledgebase_name) throw new MemosValidationError(400, "knowledgebase_name must not be empty");
+      kb.name = body.knowledgebase_name;
+    }
+    if (body.knowledgebase_description !== undefined) kb.description = body.knowledgebase_description;
+    this.save(store);
+    return ok({ success: true, knowledgebase_id: kb.id, knowledgebase_name: kb.name });
+  }
+
+  private deleteKnowledgebase(body: Record<string, any>) {
+    const store = this.load();
+    if (!store.knowledgebases.some(kb => kb.id === body.knowledgebase_id)) {
+      throw new MemosValidationError(404, `Knowledge base not found: ${body.knowledgebase_id}`);
+    }
+    store.knowledgebases = store.knowledgebases.filter(kb => kb.id !== body.knowledgebase_id);
+    store.files = store.files.filter(f => f.knowledgebase_id !== body.knowledgebase_id);
+    this.save(store);
+    return ok({ success: true });
+  }
+
+  private addKnowledgebaseFile(body: Record<string, any>) {
+    const store = this.load();
+    if (!store.knowledgebases.some(kb => kb.id === body.knowledgebase_id)) {
+      throw new MemosValidationError(404, `Knowledge base not found: ${body.knowledgebase_id}`);
+    }
+
+    const added: LocalKbFile[] = [];
+    for (const f of body.file ?? []) {
+      const content = String(f.content ?? "");
+      const record: LocalKbFile = {
+        id: uuidv4(),
+        knowledgebase_id: body.knowledgebase_id,
+        name: f.name || f.file_name || "untitled",
+        mime_type: f.mime_type || "text/plain",
+        size: 0,
+        status: "completed",
+        create_time: now()
+      };
+
+      const dataUri = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(content);
+      if (dataUri) {
+        const raw = dataUri[2] ? Buffer.from(dataUri[3], "base64") : Buffer.from(decodeURIComponent(dataUri[3]), "utf8");
+        record.mime_type = f.mime_type || dataUri[1] || "application/octet-stream";
+        record.size = raw.length;
+        if (TEXT_MIME_PATTERN.test(record.mime_type)) record.text = raw.toString("utf8");
+      } else if (/^https?:\/\//i.test(content)) {
+        record.status = "failed";
+        record.error = "The local backend cannot download remote URLs";
+      } else {
+        record.size = Buffer.byteLength(content);
+        record.text = content;
+      }
+
+      store.files.push(record);
+      added.push(record);
+    }
+    this.save(store);
+    return ok({ file_detail_list: added.map(toFileDetail) });
+  }
+
+  private getKnowledgebaseFile(body: Record<string, any>) {
+    const ids = new Set<string>(body.file_ids ?? []);
+    const store = this.load();
+    return ok({ file_detail_list: store.files.filter(f => ids.has(f.id)).map(toFileDetail) });
+  }
+
+  private getKnowledgebaseFileList(body: Record<string, any>) {
+    const store = this.load();
+    if (!store.knowledgebases.some(kb => kb.id === body.knowledgebase_id)) {
+      throw new MemosValidationError(404, `Knowledge base not found: ${body.knowledgebase_id}`);
+    }
+    const { current, size, page } = paging(body);
+    const files = store.files
+      .filter(f => f.knowledgebase_id === body.knowledgebase_id)
+      .sort((a, b) => b.create_time.localeCompare(a.create_time));
+    return ok({ file_detail_list: page(files).map(toFileDetail), total: files.length, current, size });
+  }
+
+  private deleteKnowledgebaseFile(body: Record<string, any>) {
+    const ids = new Set<string>(body.file_ids ?? []);
+    const store = this.load();
+    const before = store.files.length;
+    store.files = store.files.filter(f => !ids.has(f.id));
+    this.save(store);
+    return ok({ success: true, deleted_count: before - store.files.length });
+  }
+}
@@ -0,0 +1,283 @@
+import * as http from "node:http"
+import * as https from "node:https"
+import * as tls from "node:tls"
+import { readFileSync } from "node:fs"
+import { Duplex } from "node:stream"
+import { URL } from "node:url"
+import { MemosCertificateError, MemosNetworkError, MemosProxyError } from "../errors.js"
+import { getConfig, MemosConfig } from "../config.js"
+
+export type NetworkOptions = Pick<MemosConfig, "proxy" | "noProxy" | "caFile" | "clientCert" | "clientKey" | "clientKeyPassphrase" | "pinSha256" | "timeoutMs">
+
+/** How to send one request: the request function and the options that route it. */
+export interface Route {
+  request: typeof http.request
+  options: http.RequestOptions
+}
+
+/** Accepts the server a TLS socket connected to, or says why not. */
+type Verify = (host: string, socket: tls.TLSSocket) => Error | undefined
+
+/** `AB:CD:...` or `abcd...` as upper-case hex without separators. */
+function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/:/g, "").toUpperCase();
+}
+
+/** A proxy URL with its password masked, for messages and `doctor`. */
+export function displayProxy(proxy: string | undefined): string | undefined {
+  if (!proxy) return proxy;
+  try {
+    const url = new URL(proxy);
+    if (url.password) url.password = "****";
+    return url.href.replace(/\/$/, "");
+  } catch {
+    return proxy;
+  }
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { "Proxy-Authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+}
+
+/**
+ * True when `NO_PROXY` exempts `url`: `*`, the host itself, or a domain it
+ * belongs to (`example.com` and `.example.com` both cover `api.example.com`),
+ * optionally with a port.
+ */
+function bypassesProxy(url: URL, noProxy: string[]): boolean {
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+  return noProxy.some(entry => {
+    if (entry === "*") return true;
+    const match = /^(.*?)(?::(\d+))?$/.exec(entry.trim().toLowerCase())!;
+    const domain = match[1].replace(/^\*?\./, "").replace(/^\[|\]$/g, "");
+    if (!domain || (match[2] && match[2] !== port)) return false;
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Open a TLS connection and, with `verify`, hand it to the request only once
+ * the handshake is done and `verify` accepted the server, so nothing is sent
+ * to a server that fails the check.
+ */
+function connectTls(options: tls.ConnectionOptions, verify: Verify | undefined, done: (err: Error | null, stream?: Duplex) => void) {
+  const socket = tls.connect(options);
+  if (!verify) {
+    done(null, socket);
+    return;
+  }
+  let settled = false;
+  const settle = (error: Error | null) => {
+    if (settled) return;
+    settled = true;
+    if (error) socket.destroy();
+    done(error, error ? undefined : socket);
+  };
+  socket.once("secureConnect", () => settle(verify(options.servername || options.host || "localhost", socket) ?? null));
+  socket.once("error", settle);
+}
+
+/** An HTTPS agent whose connections are checked by `verify` before use; see `connectTls`. */
+class VerifyingAgent extends https.Agent {
+  constructor(private readonly verify: Verify, options: https.AgentOptions) {
+    super(options);
+  }
+
+  createConnection(options: http.ClientRequestArgs, callback?: (err: Error | null, stream: Duplex) => void): Duplex | null | undefined {
+    connectTls(options as tls.ConnectionOptions, this.verify, callback as (err: Error | null, stream?: Duplex) => void);
+    return undefined;
+  }
+}
+
+/**
+ * An HTTPS agent that reaches the target through an HTTP(S) proxy with
+ * `CONNECT`, then runs TLS to the target inside the tunnel, so the proxy
+ * never sees the request and the agent's CA, client certificate and pin
+ * checks still apply end to end.
+ */
+class TunnelingAgent extends https.Agent {
+  constructor(private readonly proxy: URL, private readonly proxyCa: (string | Buffer)[] | undefined, private readonly timeoutMs: number, private readonly verify: Verify | undefined, options: https.AgentOptions) {
+    super(options);
+  }
+
+  createConnection(options: http.ClientRequestArgs, callback?: (err: Error | null, stream: Duplex) => void): Duplex | null | undefined {
+    const done = callback as (err: Error | null, stream?: Duplex) => void;
+    const host = options.hostname ?? options.host ?? "localhost";
+    const authority = `${host.includes(":") ? `[${host}]` : host}:${options.port ?? 443}`;
+    const shown = displayProxy(this.proxy.href)!;
+
+    const secure = this.proxy.protocol === "https:";
+    const connect = (secure ? https.request : http.request)({
+      host: this.proxy.hostname,
+      port: this.proxy.port || (secure ? 443 : 80),
+      method: "CONNECT",
+      path: authority,
+      headers: { Host: authority, ...proxyAuthorization(this.proxy) },
+      agent: false,
+      ...(secure && this.proxyCa ? { ca: this.proxyCa } : {})
+    });
+    connect.setTimeout(this.timeoutMs, () => {
+      connect.destroy(new MemosNetworkError(`The proxy ${shown} did not open a tunnel to ${authority} within ${this.timeoutMs}ms.`));
+    });
+    connect.once("connect", (res, socket) => {
+      connect.setTimeout(0);
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        done(new MemosProxyError(shown, res.statusCode ?? 0, res.statusMessage ?? ""));
+        return;
+      }
+      connectTls({ ...(options as tls.ConnectionOptions), socket, servername: (options as tls.ConnectionOptions).servername || host }, this.verify, done);
+    });
+    connect.once("error", (e) => {
+      done(e instanceof MemosNetworkError ? e : new MemosNetworkError(`Could not reach the proxy ${shown}: ${e.message}`, e));
+    });
+    connect.end();
+    return undefined;
+  }
+}
+
+/**
+ * Outbound connection settings for the MemOS API: the proxy (`MEMOS_PROXY`,
+ * else `HTTPS_PROXY`/`HTTP_PROXY` by scheme, minus `NO_PROXY`), extra CA
+ * certificates, a client certificate for mTLS and certificate pins.
+ *
+ * Global `fetch` cannot take an agent without the undici package, so a URL
+ * that any of these apply to is always sent with `https.request` (see
+ * `custom`); the settings then behave the same whichever path Node offers.
+ *
+ * With pins, a pinned certificate in the server's chain is what makes it
+ * trusted: a self-signed server needs no MEMOS_CA_FILE, and a server a CA
+ * trusts is still refused without a pin match.
+ */
+export class Network {
+  private readonly ca?: (string | Buffer)[]
+  private readonly tlsOptions: https.AgentOptions
+  private readonly pins: Set<string>
+  private readonly agents = new Map<string, https.Agent>()
+
+  constructor(private readonly options: NetworkOptions, private readonly env: NodeJS.ProcessEnv = process.env) {
+    // Extra CAs add to the public roots, so a corporate CA does not lock out everything else.
+    this.ca = options.caFile ? [...tls.rootCertificates, readFileSync(options.caFile)] : undefined;
+    this.pins = new Set(options.pinSha256.map(normalizeFingerprint));
+    this.tlsOptions = {
+      ...(this.ca ? { ca: this.ca } : {}),
+      ...(options.clientCert ? { cert: readFileSync(options.clientCert), key: readFileSync(options.clientKey ?? options.clientCert) } : {}),
+      ...(options.clientKeyPassphrase ? { passphrase: options.clientKeyPassphrase } : {}),
+      // Pinned connections are verified in `verify` instead, after the handshake.
+      ...(this.pins.size ? { rejectUnauthorized: false, maxCachedSessions: 0 } : {})
+    };
+  }
+
+  /** The proxy for `url`, or undefined for a direct connection. */
+  proxyFor(url: URL): URL | undefined {
+    const env = this.env;
+    const configured = this.options.proxy
+      || (url.protocol === "https:" ? env.HTTPS_PROXY || env.https_proxy : env.HTTP_PROXY || env.http_proxy);
+    if (!configured) return undefined;
+    const noProxy = this.options.noProxy.length
+      ? this.options.noProxy
+      : (env.NO_PROXY || env.no_proxy || "").split(/[\s,]+/).filter(Boolean);
+    if (bypassesProxy(url, noProxy)) return undefined;
+    try {
+      return new URL(configured.includes("://") ? configured : `http://${configured}`);
+    } catch {
+      throw new MemosNetworkError(`Invalid proxy URL: ${displayProxy(configured)}`);
+    }
+  }
+
+  /** True when `url` needs more than a plain connection, so `fetch` cannot send it. */
+  custom(url: URL): boolean {
+    return !!this.proxyFor(url) || (url.protocol === "https:" && Object.keys(this.tlsOptions).length > 0);
+  }
+
+  /** The request function and options that send a request to `url` with these settings. */
+  route(url: URL): Route {
+    const proxy = this.proxyFor(url);
+    if (url.protocol === "http:") {
+      if (!proxy) return { request: http.request, options: {} };
+      // Plain HTTP goes to the proxy in absolute form; there is no TLS to tunnel.
+      return {
+        request: proxy.protocol === "https:" ? https.request : http.request,
+        options: {
+          host: proxy.hostname,
+          port: proxy.port || (proxy.protocol === "https:" ? 443 : 80),
+          path: url.href,
+          headers: { Host: url.host, ...proxyAuthorization(proxy) },
+          ...(proxy.protocol === "https:" && this.ca ? { ca: this.ca } : {})
+        }
+      };
+    }
+    if (!proxy && !Object.keys(this.tlsOptions).length) return { request: https.request, options: {} };
+    return { request: https.request, options: { agent: this.agent(proxy) } };
+  }
+
+  private agent(proxy: URL | undefined): https.Agent {
+    const key = proxy?.href ?? "";
+    let agent = this.agents.get(key);
+    if (!agent) {
+      const verify = this.pins.size ? (host: string, socket: tls.TLSSocket) => this.verify(host, socket) : undefined;
+      const options = { keepAlive: true, ...this.tlsOptions };
+      agent = proxy
+        ? new TunnelingAgent(proxy, this.ca, this.options.timeoutMs, verify, options)
+        : verify ? new VerifyingAgent(verify, options) : new https.Agent(options);
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+
+  /** The certificate of the chain with a pinned SHA-256 fingerprint, if any. */
+  private pinned(cert: tls.DetailedPeerCertificate): tls.PeerCertificate | undefined {
+    const seen = new Set<tls.PeerCertificate>();
+    for (let c: tls.DetailedPeerCertificate | undefined = cert; c && !seen.has(c); c = c.issuerCertificate) {
+      seen.add(c);
+      if (c.fingerprint256 && this.pins.has(normalizeFingerprint(c.fingerprint256))) return c;
+    }
+    return undefined;
+  }
+
+  /**
+   * The usual host name check, then the pins: the server certificate or one
+   * of its issuers must have a pinned SHA-256 fingerprint, so pinning a
+   * private CA covers every certificate it issues.
+   */
+  private verify(host: string, socket: tls.TLSSocket): Error | undefined {
+    const cert = socket.getPeerCertificate(true);
+    if (!cert?.raw) return new MemosCertificateError(host, "unknown");
+    return tls.checkServerIdentity(host, cert) ?? (this.pinned(cert) ? undefined : new MemosCertificateError(host, cert.fingerprint256));
+  }
+
+  /**
+   * The pinned certificate of `url`'s server, found with a `HEAD` request
+   * over the usual route, and whether a CA trusts the server as well; for
+   * `doctor`. Rejects like any request when no pin matches.
+   */
+  pinnedCertificate(url: URL): Promise<{ subject: string, fingerprint: string, authorized: boolean }> {
+    const { request, options } = this.route(url);
+    return new Promise((resolvePin, reject) => {
+      const req = request(url, { ...options, method: "HEAD", timeout: this.options.timeoutMs }, res => {
+        res.resume();
+        const socket = res.socket as tls.TLSSocket;
+        const pinned = this.pinned(socket.getPeerCertificate(true));
+        if (!pinned) {
+          reject(new Error(`${url.host} did not present a pinned certificate`));
+          return;
+        }
+        const subject = [pinned.subject?.CN, pinned.subject?.O].flat().filter(Boolean).join(", ") || "certificate";
+        resolvePin({ subject, fingerprint: pinned.fingerprint256, authorized: socket.authorized });
+      });
+      req.on("timeout", () => req.destroy(new MemosNetworkError(`Request to ${url.href} timed out after ${this.options.timeoutMs}ms.`)));
+      req.on("error", reject);
+      req.end();
+    });
+  }
+}
+
+let network: Network | undefined;
+
+export function getNetwork(): Network {
+  if (!network) network = new Network(getConfig());
+  return network;
+}
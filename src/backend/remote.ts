@@ -0,0 +1,198 @@
+import { URL } from "node:url"
+import { errorFromResponse, MemosError, MemosNetworkError, MemosQuotaError, MemosTimeoutError } from "../errors.js"
+import { getConfig, MemosConfig } from "../config.js"
+import { getLogger } from "../logging.js"
+import { getMetrics } from "../metrics.js"
+import { MemosBackend } from "./types.js"
+import { getNetwork } from "./network.js"
+
+export type RequestOptions = Pick<MemosConfig, "timeoutMs" | "maxRetries" | "retryBaseMs" | "retryMaxMs">
+
+/** Endpoints that only read, so sending them twice is harmless. */
+const READ_ENDPOINT = /^\/(?:get|search)\//;
+
+/** Socket error codes that mean no connection was made, so the request cannot have arrived. */
+const NOT_CONNECTED_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"]);
+
+interface RawResponse {
+  status: number
+  statusText: string
+  retryAfter: string | null
+  text: string
+}
+
+/**
+ * Parse a Retry-After header, which is either delta-seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+function parseBody(txt: string): any {
+  try {
+    return JSON.parse(txt);
+  } catch {
+    return txt;
+  }
+}
+
+/**
+ * True when a network error happened before the request could be sent.
+ * A timeout or a dropped connection may come after the API received it;
+ * `fetch` keeps the socket error as the cause of its own.
+ */
+function neverSent(error: MemosNetworkError): boolean {
+  if (error instanceof MemosTimeoutError) return false;
+  for (let cause: any = error.cause; cause; cause = cause.cause) {
+    if (NOT_CONNECTED_CODES.has(cause.code)) return true;
+  }
+  return false;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function sendWithFetch(f: any, url: string, payload: string, apiKey: string, timeoutMs: number): Promise<RawResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await f(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Token ${apiKey}`
+      },
+      body: payload,
+      signal: controller.signal
+    });
+    const text = await res.text();
+    return { status: res.status, statusText: res.statusText, retryAfter: res.headers.get("retry-after"), text };
+  } catch (e) {
+    if (controller.signal.aborted) {
+      throw new MemosTimeoutError(url, timeoutMs);
+    }
+    throw new MemosNetworkError(`Could not reach the MemOS API at ${url}: ${e instanceof Error ? e.message : String(e)}. Check network connectivity or MEMOS_BASE_URL.`, e);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function sendWithNodeRequest(url: string, payload: string, apiKey: string, timeoutMs: number): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    try {
+      const u = new URL(url);
+      const route = getNetwork().route(u);
+      const req = route.request(u, {
+        ...route.options,
+        method: "POST",
+        headers: {
+          ...route.options.headers,
+          "Content-Type": "application/json",
+          "Authorization": `Token ${apiKey}`,
+          "Content-Length": Buffer.byteLength(payload)
+        }
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => {
+          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        });
+        res.on("end", () => {
+          const retryAfter = res.headers["retry-after"];
+          resolve({
+            status: res.statusCode || 0,
+            statusText: res.statusMessage || "",
+            retryAfter: Array.isArray(retryAfter) ? retryAfter[0] : retryAfter ?? null,
+            text: Buffer.concat(chunks).toString("utf8")
+          });
+        });
+        res.on("error", (e) => reject(new MemosNetworkError(`Connection to ${url} failed: ${e.message}`, e)));
+      });
+      req.setTimeout(timeoutMs, () => {
+        req.destroy(new MemosTimeoutError(url, timeoutMs));
+      });
+      req.on("error", (e) => {
+        reject(e instanceof MemosError ? e : new MemosNetworkError(`Could not reach the MemOS API at ${url}: ${e.message}. Check network connectivity or MEMOS_BASE_URL.`, e));
+      });
+      req.write(payload);
+      req.end();
+    } catch (e) {
+      reject(new MemosNetworkError(`Invalid request to ${url}: ${e instanceof Error ? e.message : String(e)}`, e));
+    }
+  });
+}
+
+/**
+ * POST a JSON body to the MemOS API, with global `fetch` when Node has it and
+ * the URL needs no proxy or TLS settings, otherwise with `https.request`.
+ * Network errors, timeouts, 5xx and 429 responses are retried with exponential
+ * backoff (honoring Retry-After); other failures throw a typed `MemosError`.
+ * Writes are retried (or queued) after a network error only when the
+ * connection was never made: after a timeout or a reset, the first attempt
+ * may have been stored.
+ */
+export async function queryMemos(
+  path: string,
+  body: Record<string, any>,
+  apiKey: string,
+  source: string,
+  options: RequestOptions = getConfig()
+) {
+  const payload = JSON.stringify({ ...body, source });
+  const payloadBytes = Buffer.byteLength(payload);
+  const url = `${getConfig().baseUrl}${path}`;
+  const f: any = getNetwork().custom(new URL(url)) ? undefined : (globalThis as any).fetch;
+
+  for (let attempt = 0; ; attempt++) {
+    let error: MemosError;
+    try {
+      const res = f
+        ? await sendWithFetch(f, url, payload, apiKey, options.timeoutMs)
+        : await sendWithNodeRequest(url, payload, apiKey, options.timeoutMs);
+      getMetrics().bytes(path, payloadBytes, Buffer.byteLength(res.text));
+
+      if (res.status >= 200 && res.status < 300) {
+        return parseBody(res.text);
+      }
+      error = errorFromResponse(res.status, res.statusText, res.text, parseRetryAfter(res.retryAfter));
+    } catch (e) {
+      error = e instanceof MemosError ? e : new MemosNetworkError(e instanceof Error ? e.message : String(e), e);
+    }
+
+    if (error instanceof MemosNetworkError && error.retryable && !READ_ENDPOINT.test(path) && !neverSent(error)) {
+      // Neither retried nor queued: sending it again could store it twice.
+      error = new MemosNetworkError(`${error.message} The request may still have reached the API; check whether it took effect before sending it again.`, error, false);
+    }
+    if (!error.retryable || attempt >= options.maxRetries) {
+      if (attempt > 0) {
+        error.message += ` (gave up after ${attempt + 1} attempts)`;
+      }
+      throw error;
+    }
+
+    const backoff = options.retryBaseMs * 2 ** attempt;
+    const jitter = Math.random() * options.retryBaseMs;
+    const retryAfter = error instanceof MemosQuotaError ? error.retryAfterMs : undefined;
+    const delay = Math.min(retryAfter ?? backoff + jitter, options.retryMaxMs);
+    getMetrics().retry(path);
+    getLogger().info("api_retry", { endpoint: path, attempt: attempt + 1, delay_ms: Math.round(delay), error: error.message });
+    await sleep(delay);
+  }
+}
+
+/**
+ * The hosted MemOS API behind `MEMOS_BASE_URL`.
+ */
+export class RemoteBackend implements MemosBackend {
+  readonly name = "remote"
+  readonly requiresApiKey = true
+
+  request(path: string, body: Record<string, any>, apiKey: string, source: string) {
+    return queryMemos(path, body, apiKey, source);
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * A MemOS-compatible storage backend. Every tool talks to memory through
+ * `request`, using the same endpoint paths and JSON bodies as the MemOS API,
+ * so a backend only has to answer those requests in the API's response shape.
+ */
+export interface MemosBackend {
+  readonly name: string
+  /** Whether requests must carry a MemOS API key. */
+  readonly requiresApiKey: boolean
+  request(path: string, body: Record<string, any>, apiKey: string, source: string): Promise<any>
+}
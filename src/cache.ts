@@ -0,0 +1,133 @@
+import { createHash } from "node:crypto"
+import { getConfig } from "./config.js"
+
+export interface CacheStats {
+  size: number
+  max_entries: number
+  ttl_ms: number
+  hits: number
+  misses: number
+  evictions: number
+  invalidations: number
+  hit_rate: number
+}
+
+interface CacheEntry {
+  account: string
+  userId: string
+  /** Whether the search covered knowledge bases, so KB changes can drop it. */
+  searchesKb: boolean
+  expiresAt: number
+  value: any
+}
+
+/** JSON with sorted object keys, so equal option sets give equal keys. */
+export function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonical(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * In-process LRU cache of `/search/memory` responses with a TTL. Entries are
+ * scoped to the account (a hash of the API key) and user; writes for that
+ * user drop their entries, and KB changes drop the account's KB searches.
+ */
+export class SearchCache {
+  // A Map iterates in insertion order; re-inserting on a hit keeps it in LRU order.
+  private readonly entries = new Map<string, CacheEntry>()
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+  private invalidations = 0
+
+  constructor(private readonly maxEntries: number, private readonly ttlMs: number) {}
+
+  get enabled(): boolean {
+    return this.maxEntries > 0 && this.ttlMs > 0;
+  }
+
+  static account(apiKey: string): string {
+    return createHash("sha256").update(apiKey).digest("hex");
+  }
+
+  static key(account: string, body: Record<string, any>): string {
+    return `${account}\n${canonical(body)}`;
+  }
+
+  get(key: string): any {
+    if (!this.enabled) return undefined;
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, account: string, body: Record<string, any>, value: any) {
+    if (!this.enabled) return;
+    this.entries.delete(key);
+    this.entries.set(key, {
+      account,
+      userId: body.user_id,
+      searchesKb: Array.isArray(body.knowledgebase_ids) && body.knowledgebase_ids.length > 0,
+      expiresAt: Date.now() + this.ttlMs,
+      value
+    });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+      this.evictions++;
+    }
+  }
+
+  /** Drop every cached search of one user, or of the whole account. */
+  invalidateUser(account: string, userId?: string) {
+    this.invalidate(entry => entry.account === account && (userId === undefined || entry.userId === userId));
+  }
+
+  /** Drop the account's searches that covered knowledge bases. */
+  invalidateKnowledgebases(account: string) {
+    this.invalidate(entry => entry.account === account && entry.searchesKb);
+  }
+
+  private invalidate(matches: (entry: CacheEntry) => boolean) {
+    for (const [key, entry] of this.entries) {
+      if (matches(entry)) {
+        this.entries.delete(key);
+        this.invalidations++;
+      }
+    }
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      max_entries: this.maxEntries,
+      ttl_ms: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      hit_rate: lookups ? Math.round((this.hits / lookups) * 1000) / 1000 : 0
+    };
+  }
+}
+
+let searchCache: SearchCache | undefined;
+
+/** Shared by every session of the process, so HTTP sessions benefit too. */
+export function getSearchCache(): SearchCache {
+  if (!searchCache) {
+    const config = getConfig();
+    searchCache = new SearchCache(config.searchCacheSize, config.searchCacheTtlMs);
+  }
+  return searchCache;
+}
@@ -0,0 +1,80 @@
+import { estimateTokens } from "./render.js"
+
+export interface BatchLimits {
+  /** Largest single message content, in estimated tokens. */
+  messageMaxTokens: number
+  /** Largest total content of one request, in estimated tokens. */
+  batchMaxTokens: number
+  batchMaxMessages: number
+}
+
+const FENCE = /^\s*(```|~~~)/;
+
+/** Cut one over-long line into pieces of at most `maxTokens`. */
+function splitLine(line: string, maxTokens: number): string[] {
+  const charsPerToken = line.length / Math.max(1, estimateTokens(line));
+  const size = Math.max(1, Math.floor(maxTokens * charsPerToken));
+  const pieces: string[] = [];
+  for (let i = 0; i < line.length; i += size) pieces.push(line.slice(i, i + size));
+  return pieces;
+}
+
+/**
+ * Split a long message into parts of at most `maxTokens`, on line boundaries
+ * where possible. A part that ends inside a fenced code block is closed and
+ * the next part reopens it, so each part stays valid Markdown.
+ */
+export function splitContent(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  const parts: string[] = [];
+  let current = "";
+  let openFence: string | undefined;
+
+  const flush = () => {
+    if (!current) return;
+    parts.push(openFence ? `${current.replace(/\n?$/, "\n")}${openFence.trim().slice(0, 3)}` : current);
+    current = openFence ? `${openFence}\n` : "";
+  };
+
+  for (const line of text.split(/(?<=\n)/)) {
+    const pieces = estimateTokens(line) > maxTokens ? splitLine(line, maxTokens) : [line];
+    for (const piece of pieces) {
+      // Leave room for the closing fence.
+      if (current && estimateTokens(current + piece) + 2 > maxTokens) flush();
+      current += piece;
+    }
+    if (FENCE.test(line)) {
+      openFence = openFence ? undefined : line.replace(/\n$/, "");
+    }
+  }
+  if (current.trim() && current !== `${openFence}\n`) parts.push(current);
+  return parts;
+}
+
+/**
+ * Split messages that are too long and group the result into ordered
+ * batches that each respect the request limits. Parts keep the role and
+ * `chat_time` of the message they came from.
+ */
+export function planBatches<T extends { content: string }>(messages: T[], limits: BatchLimits): T[][] {
+  const parts = messages.flatMap(message =>
+    splitContent(message.content, limits.messageMaxTokens).map(content => ({ ...message, content }))
+  );
+
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let tokens = 0;
+  for (const part of parts) {
+    const cost = estimateTokens(part.content);
+    if (batch.length && (batch.length >= limits.batchMaxMessages || tokens + cost > limits.batchMaxTokens)) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+    }
+    batch.push(part);
+    tokens += cost;
+  }
+  if (batch.length) batches.push(batch);
+  return batches;
+}
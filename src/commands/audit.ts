@@ -0,0 +1,45 @@
+import { AUDIT_OUTCOMES, AUDITED_TOOLS, AuditEntry } from "../audit.js"
+import { listFlag, numberFlag, parseArgs, runCommand, stringFlag, UsageError } from "./common.js"
+
+function checkValues(flag: string, values: string[] | undefined, known: readonly string[]): string[] | undefined {
+  const unknown = values?.filter(v => !known.includes(v)) ?? [];
+  if (unknown.length) {
+    throw new UsageError(`Unknown --${flag}: ${unknown.join(", ")} (expected ${known.join(", ")})`);
+  }
+  return values;
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const target = [
+    entry.user_id && `user ${entry.user_id}`,
+    entry.knowledgebase_id && `kb ${entry.knowledgebase_id}`,
+    entry.count !== undefined && `${entry.count} items`
+  ].filter(Boolean).join(", ");
+  const lines = [`${entry.time}  ${entry.tool}  ${entry.outcome}${target ? `  (${target})` : ""}`];
+  if (entry.ids?.length) lines.push(`  ids: ${entry.ids.join(", ")}`);
+  if (entry.task_ids?.length) lines.push(`  tasks: ${entry.task_ids.join(", ")}`);
+  if (entry.error) lines.push(`  error: ${entry.error}`);
+  return lines.join("\n");
+}
+
+/**
+ * `memos-api-mcp audit`: the audit log entries of the configured API key,
+ * newest first, as the `query_audit_log` tool returns them.
+ */
+export function runAudit(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp audit [--since <time|24h>] [--until <time|1h>] [--tool <name,...>] [--outcome success|queued|partial|duplicate|error,...] [--limit <n>] [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv);
+    const entries = service.queryAuditLog({
+      since: stringFlag(args, "since"),
+      until: stringFlag(args, "until"),
+      tool: checkValues("tool", listFlag(args, "tool"), AUDITED_TOOLS),
+      outcome: checkValues("outcome", listFlag(args, "outcome"), AUDIT_OUTCOMES),
+      limit: numberFlag(args, "limit")
+    });
+    return {
+      data: { count: entries.length, entries },
+      human: () => entries.length ? entries.map(formatEntry).join("\n") : "No audit entries found."
+    };
+  });
+}
@@ -0,0 +1,123 @@
+import { initConfig } from "../config.js"
+import { sessionFromConfig } from "../server.js"
+import { MemosService, payloadOf } from "../service.js"
+
+/** Bad command-line arguments; the command's usage line is printed with it. */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface ParsedArgs {
+  positionals: string[]
+  flags: Record<string, string | true>
+}
+
+/**
+ * Split subcommand arguments into positionals and `--name value` /
+ * `--name=value` flags. Names in `booleans` never take a value. Config flags
+ * (`--api-key`, `--profile`, ...) are parsed too, so they do not end up as
+ * positionals; `initConfig` reads them from the same argv.
+ */
+export function parseArgs(argv: string[], booleans: string[] = []): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+  const allBooleans = new Set(["json", ...booleans]);
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    if (eq !== -1) {
+      flags[arg.substring(2, eq)] = arg.substring(eq + 1);
+    } else if (allBooleans.has(arg.substring(2))) {
+      flags[arg.substring(2)] = true;
+    } else if (i + 1 < argv.length) {
+      flags[arg.substring(2)] = argv[++i];
+    } else {
+      throw new UsageError(`Missing value for ${arg}`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+export function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/** Comma-separated list flag, e.g. `--kb kb1,kb2`. */
+export function listFlag(args: ParsedArgs, name: string): string[] | undefined {
+  const value = stringFlag(args, name);
+  return value === undefined ? undefined : value.split(",").map(s => s.trim()).filter(Boolean);
+}
+
+export function requirePositional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (value === undefined) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+export interface CommandResult {
+  data: any
+  human: (payload: any) => string
+  /** Non-zero when the command ran but did not fully succeed. */
+  exitCode?: number
+}
+
+/**
+ * Shared driver for data subcommands: load the config from `argv`, run the
+ * operation against the configured identity and print the result, either as
+ * the raw response (`--json`) or through `human`. A command that writes its
+ * own output returns nothing. Returns the exit code.
+ */
+export async function runCommand(
+  argv: string[],
+  usage: string,
+  run: (service: MemosService) => Promise<CommandResult | void>
+): Promise<number> {
+  const json = argv.includes("--json");
+  try {
+    const { warnings } = initConfig(argv);
+    if (!json) {
+      for (const warning of warnings) console.error(`warning: ${warning}`);
+    }
+    const result = await run(new MemosService(sessionFromConfig()));
+    if (!result) return 0;
+    console.log(json ? JSON.stringify(result.data, null, 2) : result.human(payloadOf(result.data)));
+    return result.exitCode ?? 0;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (json) {
+      console.error(JSON.stringify({ error: message }));
+    } else {
+      console.error(`Error: ${message}`);
+      if (e instanceof UsageError) {
+        console.error(`\nUsage: ${usage}`);
+      }
+    }
+    return 1;
+  }
+}
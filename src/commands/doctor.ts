@@ -0,0 +1,114 @@
+import { performance } from "node:perf_hooks"
+import { getBackend } from "../backend/index.js"
+import { queryMemos } from "../backend/remote.js"
+import { displayProxy, getNetwork } from "../backend/network.js"
+import { hasFlag, initConfig, LoadedConfig, maskSecret } from "../config.js"
+import { exposedTools } from "../exposure.js"
+import { VERSION } from "../server.js"
+
+interface Check {
+  name: string
+  ok: boolean
+  detail: string
+}
+
+/**
+ * Probe the backend with the configured credentials: a single, non-retried
+ * one-item `/get/memory` page, which needs a valid key but changes nothing.
+ */
+async function checkBackend({ config }: LoadedConfig): Promise<Check> {
+  const backend = getBackend();
+  const remote = backend.name === "remote";
+  const name = remote ? "API key" : "Local store";
+  if (remote && !config.apiKey) {
+    return { name, ok: false, detail: "MEMOS_API_KEY is not set" };
+  }
+
+  const body = { user_id: config.userId ?? "memos-api-mcp-doctor", current: 1, size: 1 };
+  const started = performance.now();
+  try {
+    if (remote) {
+      await queryMemos("/get/memory", body, config.apiKey!, config.channel, { ...config, maxRetries: 0 });
+    } else {
+      await backend.request("/get/memory", body, config.apiKey ?? "local", config.channel);
+    }
+    const latency = Math.round(performance.now() - started);
+    const proxy = remote ? getNetwork().proxyFor(new URL(config.baseUrl)) : undefined;
+    const via = proxy ? ` via proxy ${displayProxy(proxy.href)}` : "";
+    return { name, ok: true, detail: `${remote ? `accepted by ${config.baseUrl}${via}` : `readable in ${config.localDir}`} (${latency} ms)` };
+  } catch (e) {
+    return { name, ok: false, detail: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/** With MEMOS_PIN_SHA256, which certificate of the server's chain matched a pin. */
+async function checkPins({ config }: LoadedConfig): Promise<Check | undefined> {
+  if (!config.pinSha256.length || getBackend().name !== "remote" || !config.baseUrl.startsWith("https:")) return undefined;
+  const name = "Certificate pin";
+  try {
+    const { subject, fingerprint, authorized } = await getNetwork().pinnedCertificate(new URL(config.baseUrl));
+    return { name, ok: true, detail: `matched ${subject} (SHA-256 ${fingerprint})${authorized ? "" : "; no CA trusts the server, so the pin alone does"}` };
+  } catch (e) {
+    return { name, ok: false, detail: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * `memos-api-mcp doctor`: print the resolved configuration and check that the
+ * backend is reachable with it. Exits non-zero when any check fails.
+ */
+export async function runDoctor(argv: string[]): Promise<number> {
+  const checks: Check[] = [];
+  let loaded: LoadedConfig | undefined;
+
+  try {
+    loaded = initConfig(argv);
+    checks.push({ name: "Configuration", ok: true, detail: loaded.file ? `loaded from ${loaded.file}` : "no config file, using environment and defaults" });
+    for (const warning of loaded.warnings) {
+      checks.push({ name: "Configuration", ok: false, detail: warning });
+    }
+  } catch (e) {
+    checks.push({ name: "Configuration", ok: false, detail: e instanceof Error ? e.message : String(e) });
+  }
+
+  if (loaded) {
+    checks.push(await checkBackend(loaded));
+    const pins = await checkPins(loaded);
+    if (pins) checks.push(pins);
+    const tools = [...exposedTools(loaded.config)];
+    checks.push({ name: "Tools", ok: true, detail: `${tools.length} exposed (preset ${loaded.config.toolPreset})${tools.length ? `: ${tools.join(", ")}` : ""}` });
+  }
+
+  const config = loaded && {
+    ...loaded.config,
+    apiKey: maskSecret(loaded.config.apiKey),
+    proxy: displayProxy(loaded.config.proxy),
+    clientKeyPassphrase: loaded.config.clientKeyPassphrase && maskSecret(loaded.config.clientKeyPassphrase),
+    configFile: loaded.file,
+    profile: loaded.profile
+  };
+  const ok = checks.every(c => c.ok);
+
+  if (hasFlag(argv, "json")) {
+    console.log(JSON.stringify({ version: VERSION, node: process.version, ok, config, checks }, null, 2));
+  } else {
+    console.log(`memos-api-mcp ${VERSION} (node ${process.version})`);
+    if (config) {
+      console.log("\nResolved configuration:");
+      for (const [key, value] of Object.entries(config)) {
+        const shown = Array.isArray(value)
+          ? value.map(v => typeof v === "object" ? JSON.stringify(v) : v).join(", ") || "(none)"
+          : value && typeof value === "object"
+            ? Object.entries(value).map(([k, v]) => `${k}=${v}`).join(", ") || "(none)"
+            : value;
+        console.log(`  ${key.padEnd(20)} ${shown ?? "(not set)"}`);
+      }
+    }
+    console.log("\nChecks:");
+    for (const check of checks) {
+      console.log(`  ${check.ok ? "✔" : "✘"} ${check.name}: ${check.detail}`);
+    }
+  }
+
+  return ok ? 0 : 1;
+}
@@ -0,0 +1,167 @@
+import { BatchOutcome, MemosService, payloadOf } from "../service.js"
+import { FolderWatcher, SyncResult, syncKnowledgeBase } from "../sync.js"
+import { CommandResult, listFlag, numberFlag, parseArgs, ParsedArgs, requirePositional, runCommand, stringFlag, UsageError } from "./common.js"
+
+const USAGE = `memos-api-mcp kb <subcommand> [--json]
+  kb list [--page <n>] [--size <n>]
+  kb create <name> [--description <text>]
+  kb update <kb> [--name <name>] [--description <text>]
+  kb upload <kb> <file|dir|glob|url...> [--mime-type <type>] [--include <globs>] [--exclude <globs>]
+  kb files <kb> [--page <n>] [--size <n>]
+  kb get <file_id...>
+  kb status <file_id...>
+  kb delete <file_id...>
+  kb remove <kb>
+  kb sync <kb> <dir> [--include <globs>] [--exclude <globs>] [--dry-run] [--watch]
+
+<kb> is a knowledge base ID or name.`;
+
+function formatFiles(payload: any): string {
+  const files: any[] = Array.isArray(payload?.file_detail_list) ? payload.file_detail_list : [];
+  if (!files.length) return "No documents.";
+  return files
+    .map(f => `  ${f.id ?? f.file_id ?? "-"}  ${f.name ?? f.file_name ?? "untitled"}  ${f.status ?? ""}`.trimEnd())
+    .join("\n");
+}
+
+/** Upload results, including every batch of a large upload. */
+function formatUpload(payload: any): string {
+  if (!payload?.batched) return formatFiles(payload);
+  return payload.batches
+    .map((b: BatchOutcome) => `Batch ${b.batch} (${b.count} file(s)): ${b.status}${b.error ? ` — ${b.error}` : ""}${b.result ? `\n${formatFiles(payloadOf(b.result))}` : ""}`)
+    .join("\n");
+}
+
+function formatSync(result: SyncResult): string {
+  const lines = [
+    ...result.added.map(rel => `  + ${rel}`),
+    ...result.changed.map(rel => `  ~ ${rel}`),
+    ...result.removed.map(rel => `  - ${rel}`)
+  ];
+  const summary = `${result.added.length} new, ${result.changed.length} changed, ${result.removed.length} removed, ${result.unchanged} unchanged`;
+  if (result.dry_run) return [`Dry run for ${result.directory}: ${summary}.`, ...lines].join("\n");
+  return [`Synced ${result.directory}: ${summary}; uploaded ${result.uploaded}, deleted ${result.deleted}.`, ...lines].join("\n");
+}
+
+function formatKnowledgeBases(payload: any): string {
+  const list: any[] = Array.isArray(payload?.knowledgebase_detail_list) ? payload.knowledgebase_detail_list : [];
+  if (!list.length) return "No knowledge bases.";
+  return list
+    .map(kb => `  ${kb.knowledgebase_id ?? kb.id}  ${kb.knowledgebase_name ?? kb.name}${kb.file_count !== undefined ? `  (${kb.file_count} document(s))` : ""}${kb.knowledgebase_description ? `\n      ${kb.knowledgebase_description}` : ""}`)
+    .join("\n");
+}
+
+type KbAction = (service: MemosService, args: ParsedArgs) => Promise<CommandResult | void>
+
+/** Each action issues the same request as the matching KB tool. */
+const actions: Record<string, KbAction> = {
+  list: async (service, args) => {
+    const data = await service.listKnowledgeBases(numberFlag(args, "page"), numberFlag(args, "size"));
+    return { data, human: formatKnowledgeBases };
+  },
+  create: async (service, args) => {
+    const name = requirePositional(args, 1, "name");
+    const data = await service.createKnowledgeBase(name, stringFlag(args, "description"));
+    return { data, human: (payload) => `Created knowledge base "${name}"${payload?.knowledgebase_id ? ` (${payload.knowledgebase_id})` : ""}.` };
+  },
+  update: async (service, args) => {
+    const knowledgebase = requirePositional(args, 1, "kb");
+    const changes = { knowledgebase_name: stringFlag(args, "name"), knowledgebase_description: stringFlag(args, "description") };
+    if (changes.knowledgebase_name === undefined && changes.knowledgebase_description === undefined) {
+      throw new UsageError("Nothing to update: pass --name and/or --description");
+    }
+    const data = await service.updateKnowledgeBase(knowledgebase, changes);
+    return { data, human: () => `Updated knowledge base ${knowledgebase}.` };
+  },
+  upload: async (service, args) => {
+    const knowledgebaseId = requirePositional(args, 1, "kb");
+    requirePositional(args, 2, "file");
+    const mimeType = stringFlag(args, "mime-type");
+    const files = args.positionals.slice(2).map(content => ({ content, mime_type: mimeType }));
+    const data = await service.addKbDocuments(knowledgebaseId, files, {
+      include: listFlag(args, "include"),
+      exclude: listFlag(args, "exclude")
+    });
+    return { data, human: formatUpload, exitCode: data?.partial_failure ? 1 : 0 };
+  },
+  files: async (service, args) => {
+    const knowledgebase = requirePositional(args, 1, "kb");
+    const data = await service.listKbDocuments(knowledgebase, numberFlag(args, "page"), numberFlag(args, "size"));
+    return { data, human: formatFiles };
+  },
+  get: async (service, args) => {
+    requirePositional(args, 1, "file_id");
+    const data = await service.getKbDocuments(args.positionals.slice(1));
+    return { data, human: formatFiles };
+  },
+  status: async (service, args) => {
+    requirePositional(args, 1, "file_id");
+    const data = await service.getKbDocumentStatus(args.positionals.slice(1));
+    return {
+      data,
+      human: () => [
+        ...data.documents.map(d => `  ${d.file_id}  ${d.name ?? "-"}  ${d.status}${d.error ? ` — ${d.error}` : ""}`),
+        data.pending ? `${data.pending} document(s) still processing.` : "All documents are processed."
+      ].join("\n")
+    };
+  },
+  delete: async (service, args) => {
+    requirePositional(args, 1, "file_id");
+    const fileIds = args.positionals.slice(1);
+    const data = await service.deleteKbDocuments(fileIds);
+    return { data, human: () => `Deleted ${fileIds.length} document(s).` };
+  },
+  sync: async (service, args) => {
+    const options = {
+      knowledgebase_id: requirePositional(args, 1, "kb"),
+      directory: requirePositional(args, 2, "dir"),
+      include: listFlag(args, "include"),
+      exclude: listFlag(args, "exclude")
+    };
+    const json = !!args.flags.json;
+    const print = (result: SyncResult) => console.log(json ? JSON.stringify(result) : formatSync(result));
+    const data = await syncKnowledgeBase(service, { ...options, dry_run: !!args.flags["dry-run"] });
+    if (!args.flags.watch || data.dry_run) return { data, human: () => formatSync(data) };
+
+    print(data);
+    let stopped: unknown;
+    let stop = () => {};
+    const watcher = new FolderWatcher(service, options, (result, error) => {
+      if (!watcher.watching) {
+        stopped = error;
+        stop();
+      } else if (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      } else if (result && (result.uploaded || result.deleted)) {
+        print(result);
+      }
+    });
+    watcher.start();
+    console.error(`Watching ${data.directory}; press Ctrl+C to stop.`);
+    await new Promise<void>(done => {
+      stop = done;
+      process.once("SIGINT", done);
+      process.once("SIGTERM", done);
+    });
+    watcher.close();
+    if (stopped) throw stopped;
+  },
+  remove: async (service, args) => {
+    const knowledgebaseId = requirePositional(args, 1, "kb");
+    const data = await service.removeKnowledgeBase(knowledgebaseId);
+    return { data, human: () => `Removed knowledge base ${knowledgebaseId}.` };
+  }
+};
+
+/** `memos-api-mcp kb <list|create|update|upload|files|get|status|delete|remove|sync> ...` */
+export function runKb(argv: string[]): Promise<number> {
+  return runCommand(argv, USAGE, async (service) => {
+    const args = parseArgs(argv, ["dry-run", "watch"]);
+    const name = args.positionals[0];
+    const action = name && Object.prototype.hasOwnProperty.call(actions, name) ? actions[name] : undefined;
+    if (!action) {
+      throw new UsageError(name ? `Unknown kb subcommand: ${name}` : "Missing <subcommand>");
+    }
+    return action(service, args);
+  });
+}
@@ -0,0 +1,152 @@
+import { readFileSync } from "node:fs"
+import { BatchOutcome, ChatMessage } from "../service.js"
+import { memoryText } from "../render.js"
+import { listFlag, numberFlag, ParsedArgs, parseArgs, requirePositional, runCommand, stringFlag, UsageError } from "./common.js"
+
+const SECTIONS: [key: string, title: string][] = [
+  ["memory_detail_list", "Facts"],
+  ["preference_detail_list", "Preferences"],
+  ["tool_memory_detail_list", "Tool memories"],
+  ["skill_detail_list", "Skills"]
+];
+
+/** Memory lists from a search or profile response, one section per kind. */
+function formatMemories(payload: any): string {
+  const lines: string[] = [];
+  for (const [key, title] of SECTIONS) {
+    const items: any[] = Array.isArray(payload?.[key]) ? payload[key] : [];
+    if (!items.length) continue;
+    lines.push(`${title} (${items.length})`);
+    for (const item of items) {
+      const meta = [item.id, typeof item.relativity === "number" ? item.relativity.toFixed(2) : undefined].filter(Boolean);
+      lines.push(`  • ${memoryText(item)}${meta.length ? `  [${meta.join(", ")}]` : ""}`);
+    }
+  }
+  return lines.length ? lines.join("\n") : "No memories found.";
+}
+
+/** `--agent-id` and `--app-id`, as the memory tools take them. */
+function scopeFlags(args: ParsedArgs) {
+  return { agent_id: stringFlag(args, "agent-id"), app_id: stringFlag(args, "app-id") };
+}
+
+/**
+ * `memos-api-mcp search <query>`: same request as the `search_memory` tool.
+ * `--conversation-id` or `--first-message` picks the conversation; the first
+ * message defaults to the query.
+ */
+export function runSearch(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp search <query> [--conversation-id <id> | --first-message <text>] [--limit <n>] [--kb all|<id,...>] [--filter <json>] [--relativity <0-1>] [--no-preference] [--include-tool-memory] [--include-skill] [--agent-id <id>] [--app-id <id>] [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv, ["no-preference", "include-tool-memory", "include-skill"]);
+    const query = requirePositional(args, 0, "query");
+
+    let filter: Record<string, any> | undefined;
+    const rawFilter = stringFlag(args, "filter");
+    if (rawFilter !== undefined) {
+      try {
+        filter = JSON.parse(rawFilter);
+      } catch {
+        throw new UsageError("--filter must be a JSON object");
+      }
+    }
+
+    const data = await service.searchMemory({
+      query,
+      conversation_id: stringFlag(args, "conversation-id"),
+      conversation_first_message: stringFlag(args, "first-message") ?? query,
+      memory_limit_number: numberFlag(args, "limit"),
+      knowledgebase_ids: listFlag(args, "kb"),
+      filter,
+      relativity: numberFlag(args, "relativity"),
+      include_preference: args.flags["no-preference"] ? false : undefined,
+      include_tool_memory: args.flags["include-tool-memory"] ? true : undefined,
+      include_skill: args.flags["include-skill"] ? true : undefined,
+      ...scopeFlags(args)
+    });
+    return { data, human: formatMemories };
+  });
+}
+
+/**
+ * `memos-api-mcp add <user message> [assistant reply]`: same request as the
+ * `add_message` tool. `--messages <file>` reads a JSON array of messages
+ * instead (`-` for stdin).
+ */
+export function runAdd(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp add <user message> [assistant reply] [--conversation-id <id> | --first-message <text>] [--messages <file|->] [--agent-id <id>] [--app-id <id>] [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv);
+    const messagesFile = stringFlag(args, "messages");
+
+    let messages: ChatMessage[];
+    if (messagesFile !== undefined) {
+      const parsed = JSON.parse(readFileSync(messagesFile === "-" ? 0 : messagesFile, "utf8"));
+      if (!Array.isArray(parsed) || !parsed.every(m => typeof m?.role === "string" && typeof m?.content === "string")) {
+        throw new UsageError("--messages must be a JSON array of { role, content, chat_time? } objects");
+      }
+      messages = parsed;
+    } else {
+      const [user, assistant] = [requirePositional(args, 0, "user message"), args.positionals[1]];
+      messages = [{ role: "user", content: user }];
+      if (assistant !== undefined) messages.push({ role: "assistant", content: assistant });
+    }
+
+    if (!messages.length) {
+      throw new UsageError("No messages to add");
+    }
+
+    const conversation = {
+      conversation_id: stringFlag(args, "conversation-id"),
+      conversation_first_message: stringFlag(args, "first-message")
+        ?? messages.find(m => m.role === "user")?.content
+        ?? messages[0].content
+    };
+    const conversationId = service.conversationId(conversation);
+    const data = await service.addMessage({ ...conversation, ...scopeFlags(args), messages });
+    return {
+      data,
+      human: (payload) => {
+        if (payload?.batched) {
+          const lines = payload.batches.map((b: BatchOutcome) =>
+            `  batch ${b.batch} (${b.count} message(s)): ${b.status}${b.error ? ` — ${b.error}` : ""}`);
+          return [
+            `Split into ${payload.batch_count} requests for conversation ${conversationId}: ${payload.sent} sent, ${payload.queued} queued, ${payload.failed + payload.skipped} not saved.`,
+            ...lines
+          ].join("\n");
+        }
+        return payload?.queued || payload?.duplicate
+          ? payload.message
+          : `Saved ${messages.length} message(s) to conversation ${conversationId}${payload?.task_id ? ` (task ${payload.task_id})` : ""}.`;
+      },
+      exitCode: data?.partial_failure ? 1 : 0
+    };
+  });
+}
+
+/** `memos-api-mcp delete <memory_id...>`: same request as `delete_memory`. */
+export function runDelete(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp delete <memory_id...> [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv);
+    requirePositional(args, 0, "memory_id");
+    const data = await service.deleteMemory(args.positionals);
+    return { data, human: () => `Deleted ${args.positionals.length} memory(ies).` };
+  });
+}
+
+/** `memos-api-mcp profile`: same request as `get_user_profile`. */
+export function runProfile(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp profile [--page <n>] [--size <n>] [--no-preference] [--include-tool-memory] [--agent-id <id>] [--app-id <id>] [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv, ["no-preference", "include-tool-memory"]);
+    const data = await service.getUserProfile({
+      current: numberFlag(args, "page"),
+      size: numberFlag(args, "size"),
+      include_preference: args.flags["no-preference"] ? false : undefined,
+      include_tool_memory: args.flags["include-tool-memory"] ? true : undefined,
+      ...scopeFlags(args)
+    });
+    return { data, human: formatMemories };
+  });
+}
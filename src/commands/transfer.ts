@@ -0,0 +1,62 @@
+import { writeFileSync } from "node:fs"
+import { exportMemories, ExportFormat, importMemories, renderExport } from "../transfer.js"
+import { parseArgs, requirePositional, runCommand, stringFlag, UsageError } from "./common.js"
+
+/**
+ * `memos-api-mcp export`: every memory of the configured user, as JSONL
+ * (default) or Markdown, to `--output` or stdout.
+ */
+export function runExport(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp export [--format jsonl|markdown] [--output <file>] [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv);
+    const format = stringFlag(args, "format") ?? "jsonl";
+    if (format !== "jsonl" && format !== "markdown") {
+      throw new UsageError(`Unknown format: ${format}`);
+    }
+    const output = stringFlag(args, "output");
+
+    const entries = await exportMemories(service, (page, count) => {
+      if (output) console.error(`page ${page}: ${count} memories`);
+    });
+    const text = renderExport(entries, format as ExportFormat, service.userId);
+
+    if (!output) {
+      process.stdout.write(text);
+      return;
+    }
+    writeFileSync(output, text);
+    return {
+      data: { output, format, count: entries.length },
+      human: () => `Exported ${entries.length} memories to ${output}.`
+    };
+  });
+}
+
+/**
+ * `memos-api-mcp import <file>`: replay a JSONL export for the configured
+ * user. Re-running the same command after a failure resumes the import.
+ */
+export function runImport(argv: string[]): Promise<number> {
+  const usage = "memos-api-mcp import <file.jsonl> [--restart] [--json]";
+  return runCommand(argv, usage, async (service) => {
+    const args = parseArgs(argv, ["restart"]);
+    const file = requirePositional(args, 0, "file");
+    const json = !!args.flags.json;
+
+    const data = await importMemories(service, file, {
+      restart: !!args.flags.restart,
+      onProgress: ({ completed, total }) => {
+        if (!json) console.error(`imported ${completed}/${total}`);
+      }
+    });
+
+    return {
+      data,
+      human: () => data.stopped
+        ? `Stopped after ${data.completed}/${data.total} memories: ${data.stopped}\nRun the same command again to resume.`
+        : `Imported ${data.completed - data.resumed_from} memories${data.resumed_from ? ` (resumed after ${data.resumed_from})` : ""}.`,
+      exitCode: data.stopped ? 1 : 0
+    };
+  });
+}
@@ -0,0 +1,445 @@
+import { existsSync, readFileSync, statSync } from "node:fs"
+import { homedir } from "node:os"
+import { extname, join, resolve } from "node:path"
+import { z } from "zod"
+import YAML from "yaml"
+import { ConfigError } from "./errors.js"
+import { DEFAULT_DETECTORS, DETECTOR_NAMES } from "./redaction/detectors.js"
+import { exposedTools, TOOL_NAMES, TOOL_PRESETS } from "./exposure.js"
+
+export const CANDIDATE_CHANNELS = ["MODELSCOPE", "MCPSO", "MCPMARKETCN", "MCPMARKETCOM", "MEMOS", "GITHUB", "GLAMA", "PULSEMCP", "MCPSERVERS", "LOBEHUB", "MODELSCOPE_REMOTE", "BAILIAN"] as const;
+
+const DATA_DIR = join(homedir(), ".memos-api-mcp");
+const DEFAULT_CONFIG_FILES = ["config.json", "config.yaml", "config.yml"].map(name => join(DATA_DIR, name));
+
+/** `true`/`false` from a file, or the strings "true"/"false"/"1"/"0" from env and flags. */
+const booleanSetting = z.union([
+  z.boolean(),
+  z.enum(["true", "false", "1", "0"]).transform(v => v === "true" || v === "1")
+]);
+
+/** A list from a file, or a comma-separated string from env and flags. */
+const listSetting = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  v => typeof v === "string" ? v.split(",").map(s => s.trim()).filter(Boolean) : v,
+  z.array(item)
+);
+
+/** An object from a file, or comma-separated `key=value` pairs from env and flags. */
+const mapSetting = <K extends z.ZodString | z.ZodEnum<[string, ...string[]]>, V extends z.ZodTypeAny>(key: K, value: V) => z.preprocess(
+  v => typeof v === "string"
+    ? Object.fromEntries(v.split(",").map(s => s.trim()).filter(Boolean).map(pair => {
+      const at = pair.indexOf("=");
+      return at < 0 ? [pair, ""] : [pair.slice(0, at).trim(), pair.slice(at + 1).trim()];
+    }))
+    : v,
+  z.record(key, value)
+);
+
+/** A rate limit: calls per period, e.g. `30/1m`, `10/s` or `500/h`. */
+export const RATE_LIMIT_PATTERN = /^(\d+)\s*\/\s*(\d*)\s*(s|m|h)$/i;
+
+/** Per-tool settings: a tool name, or `*` for every tool without its own entry. */
+const toolKey = z.enum(["*", ...TOOL_NAMES]);
+
+function isValidRegExp(source: string, flags?: string): boolean {
+  try {
+    new RegExp(source, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A `/regex/flags` entry of the redaction allow list; other entries match exactly. */
+export const ALLOW_PATTERN = /^\/(.+)\/([imsu]*)$/;
+
+const redactionAllowSchema = z.string().min(1).refine(entry => {
+  const match = ALLOW_PATTERN.exec(entry);
+  return !match || isValidRegExp(`^(?:${match[1]})$`, match[2]);
+}, entry => ({ message: `Invalid regular expression in MEMOS_REDACT_ALLOW / --redact-allow: ${entry}` }));
+
+const redactionRuleSchema = z.object({
+  name: z.string().min(1),
+  pattern: z.string().min(1),
+  flags: z.string().regex(/^[imsu]*$/, "Only the i, m, s and u flags are allowed").optional()
+}).strict().refine(rule => isValidRegExp(rule.pattern, rule.flags), rule => ({ message: `Invalid regular expression: ${rule.pattern}` }));
+
+const configSchema = z.object({
+  apiKey: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  channel: z.string().transform(s => s.toUpperCase()).pipe(z.enum(CANDIDATE_CHANNELS, {
+    errorMap: (_, ctx) => ({ message: `Unknown channel: ${ctx.data} (expected one of ${CANDIDATE_CHANNELS.join(", ")})` })
+  })),
+  baseUrl: z.string().url(),
+  backend: z.enum(["remote", "local"]),
+  localDir: z.string().min(1),
+  queueDir: z.string().min(1),
+  transport: z.enum(["stdio", "http"]),
+  host: z.string().min(1),
+  port: z.coerce.number().int().min(1).max(65535),
+  httpAllowConfigIdentity: booleanSetting,
+  httpSessionIdleMs: z.coerce.number().int().min(0),
+  timeoutMs: z.coerce.number().int().min(1),
+  maxRetries: z.coerce.number().int().min(0),
+  retryBaseMs: z.coerce.number().int().min(0),
+  retryMaxMs: z.coerce.number().int().min(0),
+  proxy: z.string().min(1).optional(),
+  noProxy: listSetting(z.string().min(1)),
+  caFile: z.string().min(1).optional(),
+  clientCert: z.string().min(1).optional(),
+  clientKey: z.string().min(1).optional(),
+  clientKeyPassphrase: z.string().min(1).optional(),
+  pinSha256: listSetting(z.string().regex(/^(?:[0-9a-f]{2}:?){31}[0-9a-f]{2}$/i, "must be a SHA-256 certificate fingerprint (64 hex digits, colons optional)")),
+  conversationStrategy: z.enum(["hash", "explicit", "env", "session"]),
+  conversationId: z.string().min(1).optional(),
+  userAllow: listSetting(z.string().min(1)),
+  userMap: mapSetting(z.string().min(1), z.string().min(1, "must be key=value")),
+  redact: booleanSetting,
+  redactDetectors: listSetting(z.enum(DETECTOR_NAMES as [string, ...string[]])),
+  // Custom rules come as a JSON array when set from env or flags.
+  redactRules: z.preprocess(v => {
+    if (typeof v !== "string") return v;
+    try {
+      return JSON.parse(v);
+    } catch {
+      return v;
+    }
+  }, z.array(redactionRuleSchema)),
+  redactAllow: listSetting(redactionAllowSchema),
+  redactLog: z.string().min(1),
+  searchFormat: z.enum(["markdown", "json"]),
+  searchTokenBudget: z.coerce.number().int().min(100),
+  searchCacheSize: z.coerce.number().int().min(0),
+  searchCacheTtlMs: z.coerce.number().int().min(0),
+  messageMaxTokens: z.coerce.number().int().min(100),
+  batchMaxTokens: z.coerce.number().int().min(100),
+  batchMaxMessages: z.coerce.number().int().min(1),
+  kbMaxFileBytes: z.coerce.number().int().min(1),
+  kbMaxTotalBytes: z.coerce.number().int().min(1),
+  kbSyncDir: z.string().min(1),
+  fileRoot: z.string().min(1).optional(),
+  taskHistorySize: z.coerce.number().int().min(1),
+  taskWaitMaxMs: z.coerce.number().int().min(0),
+  toolPreset: z.enum(TOOL_PRESETS),
+  toolAllow: listSetting(z.enum(TOOL_NAMES)),
+  toolDeny: listSetting(z.enum(TOOL_NAMES)),
+  toolDescriptionStyle: z.enum(["auto-invoke", "on-demand"]),
+  confirmDestructive: booleanSetting,
+  toolRateLimits: mapSetting(toolKey, z.string().regex(RATE_LIMIT_PATTERN, "must be calls/period, such as 30/1m")),
+  toolConcurrency: mapSetting(toolKey, z.coerce.number().int().min(1)),
+  repeatMaxCalls: z.coerce.number().int().min(0),
+  repeatWindowMs: z.coerce.number().int().min(0),
+  idempotencyWindowMs: z.coerce.number().int().min(0),
+  logLevel: z.enum(["debug", "info", "warning", "error", "off"]),
+  logFile: z.string().min(1).optional(),
+  metricsEndpoint: booleanSetting,
+  audit: booleanSetting,
+  auditLog: z.string().min(1)
+}).strict();
+
+export type MemosConfig = z.infer<typeof configSchema>
+type ConfigKey = keyof MemosConfig
+
+/** Keys accepted in a config file, at top level or inside a profile. */
+const fileLayerSchema = configSchema.partial();
+
+const fileSchema = fileLayerSchema.extend({
+  defaultProfile: z.string().optional(),
+  profiles: z.record(fileLayerSchema).optional()
+}).strict();
+
+const defaults: Record<ConfigKey, unknown> = {
+  apiKey: undefined,
+  userId: undefined,
+  channel: "MODELSCOPE_REMOTE",
+  baseUrl: "https://memos.memtensor.cn/api/openmem/v1",
+  backend: "remote",
+  localDir: join(DATA_DIR, "local"),
+  queueDir: join(DATA_DIR, "queue"),
+  transport: "stdio",
+  host: "127.0.0.1",
+  port: 3000,
+  httpAllowConfigIdentity: false,
+  httpSessionIdleMs: 1800000,
+  timeoutMs: 30000,
+  maxRetries: 3,
+  retryBaseMs: 500,
+  retryMaxMs: 30000,
+  proxy: undefined,
+  noProxy: [],
+  caFile: undefined,
+  clientCert: undefined,
+  clientKey: undefined,
+  clientKeyPassphrase: undefined,
+  pinSha256: [],
+  conversationStrategy: "hash",
+  conversationId: undefined,
+  userAllow: [],
+  userMap: {},
+  redact: true,
+  redactDetectors: DEFAULT_DETECTORS,
+  redactRules: [],
+  redactAllow: [],
+  redactLog: join(DATA_DIR, "redactions.jsonl"),
+  searchFormat: "markdown",
+  searchTokenBudget: 2000,
+  searchCacheSize: 200,
+  searchCacheTtlMs: 60000,
+  messageMaxTokens: 3000,
+  batchMaxTokens: 8000,
+  batchMaxMessages: 20,
+  kbMaxFileBytes: 20 * 1024 * 1024,
+  kbMaxTotalBytes: 100 * 1024 * 1024,
+  kbSyncDir: join(DATA_DIR, "kb-sync"),
+  fileRoot: undefined,
+  taskHistorySize: 100,
+  taskWaitMaxMs: 30000,
+  toolPreset: "full",
+  toolAllow: [],
+  toolDeny: [],
+  toolDescriptionStyle: "auto-invoke",
+  confirmDestructive: true,
+  toolRateLimits: {},
+  toolConcurrency: {},
+  repeatMaxCalls: 3,
+  repeatWindowMs: 60000,
+  idempotencyWindowMs: 600000,
+  logLevel: "info",
+  logFile: undefined,
+  metricsEndpoint: false,
+  audit: true,
+  auditLog: join(DATA_DIR, "audit.jsonl")
+};
+
+/** Environment variable and command-line flag for every setting. */
+const sources: Record<ConfigKey, { env: string, flag: string }> = {
+  apiKey: { env: "MEMOS_API_KEY", flag: "api-key" },
+  userId: { env: "MEMOS_USER_ID", flag: "user-id" },
+  channel: { env: "MEMOS_CHANNEL", flag: "channel" },
+  baseUrl: { env: "MEMOS_BASE_URL", flag: "base-url" },
+  backend: { env: "MEMOS_BACKEND", flag: "backend" },
+  localDir: { env: "MEMOS_LOCAL_DIR", flag: "local-dir" },
+  queueDir: { env: "MEMOS_QUEUE_DIR", flag: "queue-dir" },
+  transport: { env: "MEMOS_TRANSPORT", flag: "transport" },
+  host: { env: "MEMOS_HTTP_HOST", flag: "host" },
+  port: { env: "MEMOS_HTTP_PORT", flag: "port" },
+  httpAllowConfigIdentity: { env: "MEMOS_HTTP_ALLOW_CONFIG_IDENTITY", flag: "http-allow-config-identity" },
+  httpSessionIdleMs: { env: "MEMOS_HTTP_SESSION_IDLE_MS", flag: "http-session-idle-ms" },
+  timeoutMs: { env: "MEMOS_TIMEOUT_MS", flag: "timeout-ms" },
+  maxRetries: { env: "MEMOS_MAX_RETRIES", flag: "max-retries" },
+  retryBaseMs: { env: "MEMOS_RETRY_BASE_MS", flag: "retry-base-ms" },
+  retryMaxMs: { env: "MEMOS_RETRY_MAX_MS", flag: "retry-max-ms" },
+  proxy: { env: "MEMOS_PROXY", flag: "proxy" },
+  noProxy: { env: "MEMOS_NO_PROXY", flag: "no-proxy" },
+  caFile: { env: "MEMOS_CA_FILE", flag: "ca-file" },
+  clientCert: { env: "MEMOS_CLIENT_CERT", flag: "client-cert" },
+  clientKey: { env: "MEMOS_CLIENT_KEY", flag: "client-key" },
+  clientKeyPassphrase: { env: "MEMOS_CLIENT_KEY_PASSPHRASE", flag: "client-key-passphrase" },
+  pinSha256: { env: "MEMOS_PIN_SHA256", flag: "pin-sha256" },
+  conversationStrategy: { env: "MEMOS_CONVERSATION_STRATEGY", flag: "conversation-strategy" },
+  conversationId: { env: "MEMOS_CONVERSATION_ID", flag: "conversation-id" },
+  userAllow: { env: "MEMOS_USER_ALLOW", flag: "user-allow" },
+  userMap: { env: "MEMOS_USER_MAP", flag: "user-map" },
+  redact: { env: "MEMOS_REDACT", flag: "redact" },
+  redactDetectors: { env: "MEMOS_REDACT_DETECTORS", flag: "redact-detectors" },
+  redactRules: { env: "MEMOS_REDACT_RULES", flag: "redact-rules" },
+  redactAllow: { env: "MEMOS_REDACT_ALLOW", flag: "redact-allow" },
+  redactLog: { env: "MEMOS_REDACT_LOG", flag: "redact-log" },
+  searchFormat: { env: "MEMOS_SEARCH_FORMAT", flag: "search-format" },
+  searchTokenBudget: { env: "MEMOS_SEARCH_TOKEN_BUDGET", flag: "search-token-budget" },
+  searchCacheSize: { env: "MEMOS_SEARCH_CACHE_SIZE", flag: "search-cache-size" },
+  searchCacheTtlMs: { env: "MEMOS_SEARCH_CACHE_TTL_MS", flag: "search-cache-ttl-ms" },
+  messageMaxTokens: { env: "MEMOS_MESSAGE_MAX_TOKENS", flag: "message-max-tokens" },
+  batchMaxTokens: { env: "MEMOS_BATCH_MAX_TOKENS", flag: "batch-max-tokens" },
+  batchMaxMessages: { env: "MEMOS_BATCH_MAX_MESSAGES", flag: "batch-max-messages" },
+  kbMaxFileBytes: { env: "MEMOS_KB_MAX_FILE_BYTES", flag: "kb-max-file-bytes" },
+  kbMaxTotalBytes: { env: "MEMOS_KB_MAX_TOTAL_BYTES", flag: "kb-max-total-bytes" },
+  kbSyncDir: { env: "MEMOS_KB_SYNC_DIR", flag: "kb-sync-dir" },
+  fileRoot: { env: "MEMOS_FILE_ROOT", flag: "file-root" },
+  taskHistorySize: { env: "MEMOS_TASK_HISTORY_SIZE", flag: "task-history-size" },
+  taskWaitMaxMs: { env: "MEMOS_TASK_WAIT_MAX_MS", flag: "task-wait-max-ms" },
+  toolPreset: { env: "MEMOS_TOOL_PRESET", flag: "tool-preset" },
+  toolAllow: { env: "MEMOS_TOOL_ALLOW", flag: "tool-allow" },
+  toolDeny: { env: "MEMOS_TOOL_DENY", flag: "tool-deny" },
+  toolDescriptionStyle: { env: "MEMOS_TOOL_DESCRIPTION_STYLE", flag: "tool-description-style" },
+  confirmDestructive: { env: "MEMOS_CONFIRM_DESTRUCTIVE", flag: "confirm-destructive" },
+  toolRateLimits: { env: "MEMOS_TOOL_RATE_LIMITS", flag: "tool-rate-limits" },
+  toolConcurrency: { env: "MEMOS_TOOL_CONCURRENCY", flag: "tool-concurrency" },
+  repeatMaxCalls: { env: "MEMOS_REPEAT_MAX_CALLS", flag: "repeat-max-calls" },
+  repeatWindowMs: { env: "MEMOS_REPEAT_WINDOW_MS", flag: "repeat-window-ms" },
+  idempotencyWindowMs: { env: "MEMOS_IDEMPOTENCY_WINDOW_MS", flag: "idempotency-window-ms" },
+  logLevel: { env: "MEMOS_LOG_LEVEL", flag: "log-level" },
+  logFile: { env: "MEMOS_LOG_FILE", flag: "log-file" },
+  metricsEndpoint: { env: "MEMOS_METRICS_ENDPOINT", flag: "metrics-endpoint" },
+  audit: { env: "MEMOS_AUDIT", flag: "audit" },
+  auditLog: { env: "MEMOS_AUDIT_LOG", flag: "audit-log" }
+};
+
+export interface LoadedConfig {
+  config: MemosConfig
+  /** Config file that was read, if any. */
+  file?: string
+  profile?: string
+  /** Problems that do not stop the server, e.g. missing credentials. */
+  warnings: string[]
+}
+
+/**
+ * Read `--name value` / `--name=value` style flags from the command line.
+ */
+export function getFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.substring(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+export function hasFlag(argv: string[], name: string): boolean {
+  return argv.includes(`--${name}`);
+}
+
+function formatIssues(error: z.ZodError, origin: string): string {
+  return error.issues
+    .map(issue => `${origin}: ${issue.path.length ? issue.path.join(".") + ": " : ""}${issue.message}`)
+    .join("\n");
+}
+
+function readConfigFile(file: string): z.infer<typeof fileSchema> {
+  let raw: unknown;
+  try {
+    const text = readFileSync(file, "utf8");
+    raw = extname(file) === ".json" ? JSON.parse(text) : YAML.parse(text);
+  } catch (e) {
+    throw new ConfigError(`Failed to read config file ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const parsed = fileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new ConfigError(formatIssues(parsed.error, file));
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolve the configuration. Later layers win:
+ * defaults < config file < selected profile < environment < command-line flags.
+ * The config file is `--config`/`MEMOS_CONFIG`, or the first of
+ * `~/.memos-api-mcp/config.{json,yaml,yml}` that exists; the profile is
+ * `--profile`/`MEMOS_PROFILE`, or the file's `defaultProfile`.
+ */
+export function loadConfig(argv: string[] = [], env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const explicitFile = getFlag(argv, "config") ?? (env.MEMOS_CONFIG || undefined);
+  const file = explicitFile ? resolve(explicitFile) : DEFAULT_CONFIG_FILES.find(f => existsSync(f));
+  if (explicitFile && !existsSync(file!)) {
+    throw new ConfigError(`Config file not found: ${file}`);
+  }
+
+  const merged: Record<string, unknown> = { ...defaults };
+  let profile: string | undefined;
+
+  if (file) {
+    const { profiles, defaultProfile, ...base } = readConfigFile(file);
+    Object.assign(merged, base);
+
+    profile = getFlag(argv, "profile") ?? (env.MEMOS_PROFILE || defaultProfile);
+    if (profile) {
+      if (!profiles?.[profile]) {
+        throw new ConfigError(`Profile "${profile}" is not defined in ${file}`);
+      }
+      Object.assign(merged, profiles[profile]);
+    }
+  } else if (getFlag(argv, "profile") ?? env.MEMOS_PROFILE) {
+    throw new ConfigError("A profile was selected but no config file was found");
+  }
+
+  for (const [key, { env: name, flag }] of Object.entries(sources)) {
+    const fromEnv = env[name];
+    if (fromEnv !== undefined && fromEnv !== "") merged[key] = fromEnv;
+    const fromFlag = getFlag(argv, flag);
+    if (fromFlag !== undefined) merged[key] = fromFlag;
+  }
+
+  const parsed = configSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new ConfigError(formatIssues(parsed.error, "Invalid configuration"));
+  }
+
+  const config = parsed.data;
+  if (config.messageMaxTokens > config.batchMaxTokens) {
+    throw new ConfigError("MEMOS_MESSAGE_MAX_TOKENS must not exceed MEMOS_BATCH_MAX_TOKENS");
+  }
+  if (config.toolPreset === "custom" && !config.toolAllow.length) {
+    throw new ConfigError("MEMOS_TOOL_PRESET=custom requires MEMOS_TOOL_ALLOW to list the tools to expose");
+  }
+  for (const key of ["caFile", "clientCert", "clientKey"] as const) {
+    if (config[key] && !existsSync(config[key])) {
+      throw new ConfigError(`${sources[key].env} does not exist: ${config[key]}`);
+    }
+  }
+  if (config.fileRoot && !(existsSync(config.fileRoot) && statSync(config.fileRoot).isDirectory())) {
+    throw new ConfigError(`MEMOS_FILE_ROOT is not a directory: ${config.fileRoot}`);
+  }
+  if (config.clientKey && !config.clientCert) {
+    throw new ConfigError("MEMOS_CLIENT_KEY requires MEMOS_CLIENT_CERT");
+  }
+  if (config.conversationStrategy === "env" && !config.conversationId) {
+    throw new ConfigError("MEMOS_CONVERSATION_STRATEGY=env requires MEMOS_CONVERSATION_ID to be set");
+  }
+
+  const warnings: string[] = [];
+  if (config.backend === "remote" && !config.apiKey) {
+    warnings.push(config.transport === "http"
+      ? "MEMOS_API_KEY is not set; every HTTP session must send its own API key"
+      : "MEMOS_API_KEY is not set, please set it in the environment variables or mcp.json file");
+  }
+  if (!config.userId) {
+    warnings.push(config.transport === "http"
+      ? "MEMOS_USER_ID is not set; every HTTP session must send its own X-Memos-User-Id header"
+      : "MEMOS_USER_ID is not set, please set it in the environment variables or mcp.json file");
+  }
+  if (config.transport === "http" && config.httpAllowConfigIdentity && !["127.0.0.1", "::1", "localhost"].includes(config.host)) {
+    warnings.push(`MEMOS_HTTP_ALLOW_CONFIG_IDENTITY lets anyone who can reach ${config.host}:${config.port} use MEMOS_API_KEY without credentials`);
+  }
+  if (config.pinSha256.length && !config.baseUrl.startsWith("https:")) {
+    warnings.push("MEMOS_PIN_SHA256 only applies to an https MEMOS_BASE_URL");
+  }
+  if (config.metricsEndpoint && config.transport !== "http") {
+    warnings.push("MEMOS_METRICS_ENDPOINT only applies to MEMOS_TRANSPORT=http; use the get_server_stats tool in stdio mode");
+  }
+  if (!exposedTools(config).size) {
+    warnings.push("MEMOS_TOOL_DENY removes every tool of the preset; the server exposes no tools");
+  }
+
+  return { config, file, profile, warnings };
+}
+
+let current: LoadedConfig | undefined;
+
+/**
+ * Load and validate the configuration once at startup.
+ */
+export function initConfig(argv: string[]): LoadedConfig {
+  current = loadConfig(argv);
+  return current;
+}
+
+/**
+ * The active configuration. Resolved without command-line flags when
+ * `initConfig` has not run, e.g. when modules are imported by scripts.
+ */
+export function getConfig(): MemosConfig {
+  if (!current) current = loadConfig();
+  return current.config;
+}
+
+/** Show just enough of a secret to tell keys apart. */
+export function maskSecret(secret: string | undefined): string {
+  if (!secret) return "(not set)";
+  if (secret.length <= 8) return "****";
+  return `${secret.slice(0, 4)}****${secret.slice(-4)}`;
+}
@@ -0,0 +1,213 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { v4 as uuidv4 } from "uuid"
+import { MemosValidationError } from "./errors.js"
+import { memoryText } from "./render.js"
+import { MemoryScope, MemosService, payloadOf } from "./service.js"
+
+/** How long a confirmation token (and an open confirmation dialog) stays valid. */
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+const PREVIEW_TEXT_LENGTH = 200;
+const PREVIEW_DOCUMENTS = 20;
+const MEMORY_PAGE_SIZE = 50;
+/** Pages scanned for the memories of a deletion preview (there is no get-by-ID endpoint). */
+const MEMORY_LOOKUP_PAGES = 20;
+
+export interface PreviewItem {
+  id: string
+  /**
+   * False when the ID matches nothing, so deleting it does nothing; unset
+   * when the lookup gave up before reaching it.
+   */
+  found?: boolean
+  text?: string
+  status?: string
+}
+
+/** What a destructive call is about to delete, shown to the user before it runs. */
+export interface DestructivePreview {
+  action: string
+  items: PreviewItem[]
+  /** Set when `items` shows only part of what will be deleted. */
+  total?: number
+}
+
+export type ConfirmationOutcome =
+  | { confirmed: true }
+  | { confirmed: false, data: Record<string, unknown> }
+
+function truncate(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > PREVIEW_TEXT_LENGTH ? `${flat.slice(0, PREVIEW_TEXT_LENGTH - 1)}…` : flat;
+}
+
+/**
+ * The memories behind `memory_ids`, looked up in the user's memory pages,
+ * since the API cannot fetch a memory by ID. Stops once every ID is found
+ * or after `MEMORY_LOOKUP_PAGES` pages; IDs not reached by then are shown
+ * as they are.
+ */
+export async function previewMemoryDeletion(service: MemosService, memoryIds: string[], scope: MemoryScope = {}): Promise<DestructivePreview> {
+  const wanted = new Set(memoryIds);
+  const texts = new Map<string, string>();
+  const seen = new Set<string>();
+  let complete = false;
+  for (let page = 1; page <= MEMORY_LOOKUP_PAGES && texts.size < wanted.size; page++) {
+    const data = payloadOf(await service.getUserProfile({ ...scope, include_preference: true, include_tool_memory: true, current: page, size: MEMORY_PAGE_SIZE }));
+    const lists: any[][] = [data?.memory_detail_list, data?.preference_detail_list, data?.tool_memory_detail_list].filter(Array.isArray);
+    let added = 0;
+    for (const memory of lists.flat()) {
+      if (!memory?.id || seen.has(memory.id)) continue;
+      seen.add(memory.id);
+      added++;
+      if (wanted.has(memory.id)) texts.set(memory.id, memoryText(memory));
+    }
+    // A short page, or one with nothing new (an API that ignores paging), was the last.
+    if (added === 0 || lists.every(list => list.length < MEMORY_PAGE_SIZE)) {
+      complete = true;
+      break;
+    }
+  }
+
+  return {
+    action: `Delete ${memoryIds.length} ${memoryIds.length === 1 ? "memory" : "memories"}`,
+    items: memoryIds.map(id => {
+      const text = texts.get(id);
+      if (text !== undefined) return { id, found: true, text: truncate(text) };
+      return complete ? { id, found: false } : { id };
+    })
+  };
+}
+
+export async function previewKbDocumentDeletion(service: MemosService, fileIds: string[]): Promise<DestructivePreview> {
+  const files: any[] = payloadOf(await service.getKbDocuments(fileIds))?.file_detail_list ?? [];
+  return {
+    action: `Delete ${fileIds.length} knowledge base ${fileIds.length === 1 ? "document" : "documents"}`,
+    items: fileIds.map(id => {
+      const file = files.find(f => (f?.id ?? f?.file_id) === id);
+      if (!file) return { id, found: false };
+      return { id, found: true, text: file.name ?? file.file_name, ...(file.status ? { status: String(file.status).toLowerCase() } : {}) };
+    })
+  };
+}
+
+/** The knowledge base and the first of the documents that go with it. */
+export async function previewKnowledgeBaseRemoval(service: MemosService, knowledgebaseId: string, reference: string): Promise<DestructivePreview> {
+  const label = reference === knowledgebaseId ? knowledgebaseId : `"${reference}" (${knowledgebaseId})`;
+  try {
+    const data = payloadOf(await service.listKbDocuments(knowledgebaseId, 1, PREVIEW_DOCUMENTS));
+    const files: any[] = data?.file_detail_list ?? [];
+    const total = Number(data?.total ?? files.length);
+    return {
+      action: `Remove knowledge base ${label} and its ${total} ${total === 1 ? "document" : "documents"}`,
+      items: files.map(f => ({ id: f?.id ?? f?.file_id, found: true, text: f?.name ?? f?.file_name })),
+      ...(total > files.length ? { total } : {})
+    };
+  } catch (e) {
+    if (!(e instanceof MemosValidationError)) throw e;
+    return { action: `Remove knowledge base ${label} (its documents could not be listed)`, items: [] };
+  }
+}
+
+export function renderPreview(preview: DestructivePreview): string {
+  const lines = preview.items.map(item => {
+    if (item.found === false) return `- ${item.id}: not found`;
+    if (!item.found) return `- ${item.id}`;
+    return `- ${item.text || item.id}${item.status ? ` [${item.status}]` : ""}`;
+  });
+  if (preview.total && preview.total > preview.items.length) {
+    lines.push(`- … and ${preview.total - preview.items.length} more`);
+  }
+  return lines.length ? [`${preview.action}:`, ...lines].join("\n") : `${preview.action}.`;
+}
+
+/**
+ * Single-use tokens for clients without elicitation. A token is bound to the
+ * tool and the exact set of IDs it was issued for, so a model cannot reuse it
+ * for a different deletion.
+ */
+export class ConfirmationTokens {
+  private readonly tokens = new Map<string, { key: string, expires: number }>()
+
+  private static key(tool: string, ids: string[]): string {
+    return [tool, ...[...new Set(ids)].sort()].join("\n");
+  }
+
+  issue(tool: string, ids: string[]): { token: string, expires_at: string } {
+    const now = Date.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expires <= now) this.tokens.delete(token);
+    }
+    const token = uuidv4();
+    const expires = now + CONFIRMATION_TTL_MS;
+    this.tokens.set(token, { key: ConfirmationTokens.key(tool, ids), expires });
+    return { token, expires_at: new Date(expires).toISOString() };
+  }
+
+  /** True, and the token is used up, when it was issued for this tool and these IDs and has not expired. */
+  redeem(tool: string, ids: string[], token: string): boolean {
+    const entry = this.tokens.get(token);
+    if (!entry || entry.key !== ConfirmationTokens.key(tool, ids)) return false;
+    this.tokens.delete(token);
+    return entry.expires > Date.now();
+  }
+}
+
+/**
+ * Ask the human before a destructive call runs. A valid `confirmation_token`
+ * from an earlier preview confirms at once. Otherwise the preview is shown in
+ * an elicitation dialog when the client supports it; if it does not, or the
+ * dialog fails, the preview is returned with a token the model can send back
+ * once the user has confirmed in the chat.
+ */
+export async function confirmDestructive(
+  server: Server,
+  tokens: ConfirmationTokens,
+  request: { tool: string, ids: string[], confirmation_token?: string, preview: () => Promise<DestructivePreview> }
+): Promise<ConfirmationOutcome> {
+  const { tool, ids, confirmation_token } = request;
+  if (confirmation_token) {
+    if (tokens.redeem(tool, ids, confirmation_token)) return { confirmed: true };
+    throw new Error(`confirmation_token is unknown, expired, already used or was issued for other IDs. Call ${tool} again without it to get a new preview.`);
+  }
+
+  const preview = await request.preview();
+  if (server.getClientCapabilities()?.elicitation) {
+    try {
+      const result = await server.elicitInput({
+        message: `${renderPreview(preview)}\n\nThis cannot be undone.`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: { type: "boolean", title: "Delete", description: "Check to confirm the deletion", default: false }
+          },
+          required: ["confirm"]
+        }
+      }, { timeout: CONFIRMATION_TTL_MS });
+      if (result.action === "accept" && result.content?.confirm === true) return { confirmed: true };
+      return {
+        confirmed: false,
+        data: {
+          deleted: false,
+          cancelled: true,
+          preview,
+          message: "The user did not confirm, so nothing was deleted. Do not retry unless the user asks again."
+        }
+      };
+    } catch {
+      // Fall back to a confirmation token.
+    }
+  }
+
+  const { token, expires_at } = tokens.issue(tool, ids);
+  return {
+    confirmed: false,
+    data: {
+      deleted: false,
+      confirmation_required: true,
+      confirmation_token: token,
+      expires_at,
+      preview,
+      message: `Nothing was deleted yet. Show the preview to the user and ask them to confirm. Only after they explicitly agree, call ${tool} again with the same IDs and this confirmation_token.`
+    }
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Base class for every failure talking to the MemOS API. `retryable` tells
+ * the HTTP client whether another attempt could succeed.
+ */
+export class MemosError extends Error {
+  readonly status?: number
+  readonly retryable: boolean
+
+  constructor(message: string, options: { status?: number, retryable?: boolean, cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/** 401/403: the API key is missing, invalid or lacks permission. */
+export class MemosAuthError extends MemosError {
+  constructor(status: number, detail: string) {
+    super(
+      `Authentication failed (HTTP ${status})${detail ? `: ${detail}` : ""}. Check that MEMOS_API_KEY is correct and has not been revoked.`,
+      { status }
+    );
+  }
+}
+
+/** 429 (and 402): rate limited or out of quota. Rate limits are retried. */
+export class MemosQuotaError extends MemosError {
+  readonly retryAfterMs?: number
+
+  constructor(status: number, detail: string, retryAfterMs?: number) {
+    super(
+      `Rate limit or quota exceeded (HTTP ${status})${detail ? `: ${detail}` : ""}. Wait a moment before trying again, or check the plan quota in the MemOS dashboard.`,
+      { status, retryable: status === 429 }
+    );
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Other 4xx: the request itself is wrong, so retrying it cannot help. */
+export class MemosValidationError extends MemosError {
+  constructor(status: number, detail: string) {
+    super(
+      `The MemOS API rejected the request (HTTP ${status})${detail ? `: ${detail}` : ""}. Fix the parameters instead of retrying the same call.`,
+      { status }
+    );
+  }
+}
+
+/** 5xx: the MemOS service failed to handle a valid request. */
+export class MemosServerError extends MemosError {
+  constructor(status: number, detail: string) {
+    super(
+      `MemOS API server error (HTTP ${status})${detail ? `: ${detail}` : ""}. The service may be temporarily unavailable; try again later.`,
+      { status, retryable: true }
+    );
+  }
+}
+
+/**
+ * The request never got an HTTP response: DNS, connection or timeout failure.
+ * Not retryable when a write may have arrived anyway; see `queryMemos`.
+ */
+export class MemosNetworkError extends MemosError {
+  constructor(message: string, cause?: unknown, retryable = true) {
+    super(message, { retryable, cause });
+  }
+}
+
+export class MemosTimeoutError extends MemosNetworkError {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms. Check network connectivity or raise MEMOS_TIMEOUT_MS.`);
+  }
+}
+
+/** The proxy refused to open a tunnel. Only its own 5xx failures are retried. */
+export class MemosProxyError extends MemosError {
+  constructor(proxy: string, status: number, statusText: string) {
+    super(
+      `The proxy ${proxy} refused the connection (HTTP ${status}${statusText ? ` ${statusText}` : ""})${status === 407 ? ". Check the user name and password in the proxy URL." : ""}`,
+      { status, retryable: status >= 500 }
+    );
+  }
+}
+
+/** The server certificate matches none of MEMOS_PIN_SHA256; retrying cannot help. */
+export class MemosCertificateError extends MemosError {
+  constructor(host: string, fingerprint: string) {
+    super(`The certificate of ${host} (SHA-256 ${fingerprint}) does not match MEMOS_PIN_SHA256. Refusing to send the request.`);
+  }
+}
+
+/**
+ * Map an HTTP error response to the matching error class.
+ */
+export function errorFromResponse(status: number, statusText: string, body: string, retryAfterMs?: number): MemosError {
+  const detail = [statusText, body.trim()].filter(Boolean).join(" ").slice(0, 500);
+  if (status === 401 || status === 403) return new MemosAuthError(status, detail);
+  if (status === 402 || status === 429) return new MemosQuotaError(status, detail, retryAfterMs);
+  if (status >= 500) return new MemosServerError(status, detail);
+  return new MemosValidationError(status, detail);
+}
+
+/**
+ * Uniform `isError` tool result for any thrown value.
+ */
+export function toolError(e: unknown) {
+  return {
+    content: [{ type: "text" as const, text: `Error: ${e instanceof Error ? e.message : "Unknown error"}` }],
+    isError: true
+  };
+}
+
+/** Invalid or inconsistent configuration, reported once at startup. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/** A tool call refused by the runaway-agent guard; see guard.ts. */
+export class ToolGuardError extends Error {
+  constructor(readonly reason: "rate_limit" | "concurrency" | "repeated_call", message: string) {
+    super(message);
+    this.name = "ToolGuardError";
+  }
+}
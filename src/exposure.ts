@@ -0,0 +1,96 @@
+/** Every tool the server can register. */
+export const TOOL_NAMES = [
+  "add_message",
+  "search_memory",
+  "delete_memory",
+  "add_feedback",
+  "get_user_profile",
+  "create_knowledge_base",
+  "list_knowledge_bases",
+  "update_knowledge_base",
+  "add_kb_document",
+  "get_kb_documents",
+  "list_kb_documents",
+  "get_kb_document_status",
+  "delete_kb_documents",
+  "remove_knowledge_base",
+  "sync_kb_folder",
+  "get_task_status",
+  "export_memories",
+  "import_memories",
+  "manage_write_queue",
+  "get_server_stats",
+  "query_audit_log"
+] as const;
+
+export type ToolName = typeof TOOL_NAMES[number]
+
+export const TOOL_PRESETS = ["full", "read-only", "memory-only", "kb-only", "custom"] as const;
+
+export type ToolPreset = typeof TOOL_PRESETS[number]
+
+/** Tools that change neither memory, knowledge bases nor local files. */
+export const READ_ONLY_TOOLS: readonly ToolName[] = [
+  "search_memory",
+  "get_user_profile",
+  "list_knowledge_bases",
+  "get_kb_documents",
+  "list_kb_documents",
+  "get_kb_document_status",
+  "get_task_status",
+  "get_server_stats",
+  "query_audit_log"
+];
+
+/**
+ * Tools of each preset. `read-only` has no tool that changes memory,
+ * knowledge bases or local files; `kb-only` keeps `search_memory`, the only
+ * way to search document content. `custom` starts empty.
+ */
+const PRESET_TOOLS: Record<ToolPreset, readonly ToolName[]> = {
+  "full": TOOL_NAMES,
+  "read-only": READ_ONLY_TOOLS,
+  "memory-only": [
+    "add_message",
+    "search_memory",
+    "delete_memory",
+    "add_feedback",
+    "get_user_profile",
+    "get_task_status",
+    "export_memories",
+    "import_memories",
+    "manage_write_queue",
+    "get_server_stats",
+    "query_audit_log"
+  ],
+  "kb-only": [
+    "search_memory",
+    "create_knowledge_base",
+    "list_knowledge_bases",
+    "update_knowledge_base",
+    "add_kb_document",
+    "get_kb_documents",
+    "list_kb_documents",
+    "get_kb_document_status",
+    "delete_kb_documents",
+    "remove_knowledge_base",
+    "sync_kb_folder",
+    "get_task_status",
+    "get_server_stats",
+    "query_audit_log"
+  ],
+  "custom": []
+};
+
+export interface ToolExposure {
+  toolPreset: ToolPreset
+  toolAllow: string[]
+  toolDeny: string[]
+}
+
+/** The tools to register: the preset plus `toolAllow`, minus `toolDeny`. */
+export function exposedTools({ toolPreset, toolAllow, toolDeny }: ToolExposure): Set<string> {
+  const tools = new Set<string>([...PRESET_TOOLS[toolPreset], ...toolAllow]);
+  for (const name of toolDeny) tools.delete(name);
+  return tools;
+}
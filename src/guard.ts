@@ -0,0 +1,177 @@
+import { createHash } from "node:crypto"
+import { canonical } from "./cache.js"
+import { getConfig, MemosConfig, RATE_LIMIT_PATTERN } from "./config.js"
+import { ToolGuardError } from "./errors.js"
+import { READ_ONLY_TOOLS, ToolName } from "./exposure.js"
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/** Tracked keys before stale ones are swept, so distinct arguments cannot grow memory without bound. */
+const SWEEP_THRESHOLD = 1000;
+
+export interface RateLimit {
+  calls: number
+  windowMs: number
+}
+
+/** `30/1m`, `10/s` or `500/h` as calls per window. */
+export function parseRateLimit(value: string): RateLimit {
+  const match = RATE_LIMIT_PATTERN.exec(value.trim());
+  if (!match) throw new Error(`Invalid rate limit "${value}": use calls/period, such as 30/1m`);
+  return { calls: Number(match[1]), windowMs: Number(match[2] || 1) * UNIT_MS[match[3].toLowerCase()] };
+}
+
+function seconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+export type ToolGuardOptions = Pick<MemosConfig, "toolRateLimits" | "toolConcurrency" | "repeatMaxCalls" | "repeatWindowMs">
+
+/**
+ * Per-account limits on MCP tool calls, against agents stuck in a loop: a
+ * rate limit and a cap on concurrent calls per tool (`*` for the rest), and
+ * a limit on identical calls (same tool, same arguments) within a window.
+ * Only admitted calls count, so a refused loop frees up once it stops.
+ * Identical calls of read-only tools are allowed: polling a status or
+ * repeating a search changes nothing, and rate limits still cover them.
+ */
+export class ToolGuard {
+  private readonly rateLimits = new Map<string, RateLimit>()
+  private readonly calls = new Map<string, number[]>()
+  private readonly repeats = new Map<string, number[]>()
+  private readonly running = new Map<string, number>()
+
+  constructor(private readonly options: ToolGuardOptions) {
+    for (const [tool, limit] of Object.entries(options.toolRateLimits)) {
+      if (limit) this.rateLimits.set(tool, parseRateLimit(limit));
+    }
+  }
+
+  /** Admit a call or throw a `ToolGuardError`; the returned function ends the call. */
+  admit(account: string, tool: string, args: unknown): () => void {
+    const now = Date.now();
+    const { repeatMaxCalls, repeatWindowMs } = this.options;
+    const checkRepeats = repeatMaxCalls > 0 && repeatWindowMs > 0 && !READ_ONLY_TOOLS.includes(tool as ToolName);
+    const repeatKey = `${account}\n${tool}\n${canonical(args ?? {})}`;
+    const repeats = checkRepeats ? this.recent(this.repeats, repeatKey, now, repeatWindowMs) : [];
+    if (checkRepeats && repeats.length >= repeatMaxCalls) {
+      throw new ToolGuardError("repeated_call", `${tool} was already called ${repeats.length} times with exactly these arguments in the last ${seconds(repeatWindowMs)}s, so this call was not run. Do not repeat the same call in a loop: use the earlier result, or change the arguments if something else is needed.`);
+    }
+
+    const callKey = `${account}\n${tool}`;
+    const limit = this.rateLimits.get(tool) ?? this.rateLimits.get("*");
+    const calls = limit ? this.recent(this.calls, callKey, now, limit.windowMs) : [];
+    if (limit && calls.length >= limit.calls) {
+      throw new ToolGuardError("rate_limit", `Rate limit of ${tool} reached: at most ${limit.calls} ${limit.calls === 1 ? "call" : "calls"} per ${seconds(limit.windowMs)}s. Try again in ${seconds(calls[0] + limit.windowMs - now)}s, and only if the user still needs it.`);
+    }
+
+    const maxRunning = this.options.toolConcurrency[tool as keyof ToolGuardOptions["toolConcurrency"]] ?? this.options.toolConcurrency["*"];
+    const running = this.running.get(callKey) ?? 0;
+    if (maxRunning !== undefined && running >= maxRunning) {
+      throw new ToolGuardError("concurrency", `${tool} already has ${running} ${running === 1 ? "call" : "calls"} running, the most allowed at once. Wait for ${running === 1 ? "it" : "them"} to finish before calling it again.`);
+    }
+
+    if (checkRepeats) this.repeats.set(repeatKey, [...repeats, now]);
+    if (limit) this.calls.set(callKey, [...calls, now]);
+    this.running.set(callKey, running + 1);
+    if (this.repeats.size > SWEEP_THRESHOLD) this.sweep(now);
+
+    let ended = false;
+    return () => {
+      if (ended) return;
+      ended = true;
+      const left = (this.running.get(callKey) ?? 1) - 1;
+      if (left > 0) this.running.set(callKey, left);
+      else this.running.delete(callKey);
+    };
+  }
+
+  /** Times of `key` within the window, pruning older ones. */
+  private recent(times: Map<string, number[]>, key: string, now: number, windowMs: number): number[] {
+    const kept = (times.get(key) ?? []).filter(t => t > now - windowMs);
+    if (kept.length) times.set(key, kept);
+    else times.delete(key);
+    return kept;
+  }
+
+  private sweep(now: number) {
+    for (const key of [...this.repeats.keys()]) this.recent(this.repeats, key, now, this.options.repeatWindowMs);
+  }
+}
+
+/** An earlier write with the same content, returned instead of storing it again. */
+export interface DuplicateWrite {
+  duplicate: true
+  idempotency_key: string
+  first_saved_at: string
+  /** False while the first write is still being sent. */
+  settled: boolean
+  task_ids?: string[]
+  message: string
+}
+
+/**
+ * Content-hash idempotency keys for `add_message` and `add_feedback`: a
+ * payload identical to one saved (or being saved) within the window is
+ * dropped. Failed writes release their key, so retrying them still works.
+ */
+export class IdempotencyKeys {
+  private readonly writes = new Map<string, { at: number, settled: boolean, task_ids?: string[] }>()
+
+  constructor(private readonly windowMs: number) {}
+
+  get enabled(): boolean {
+    return this.windowMs > 0;
+  }
+
+  static key(account: string, tool: string, body: Record<string, any>): string {
+    return createHash("sha256").update(`${account}\n${tool}\n${canonical(body)}`).digest("hex").slice(0, 32);
+  }
+
+  /** The earlier write with this key, or undefined once the key is reserved for this one. */
+  claim(tool: string, key: string): DuplicateWrite | undefined {
+    if (!this.enabled) return undefined;
+    const now = Date.now();
+    for (const [k, write] of this.writes) {
+      if (write.at <= now - this.windowMs) this.writes.delete(k);
+    }
+
+    const earlier = this.writes.get(key);
+    if (!earlier) {
+      this.writes.set(key, { at: now, settled: false });
+      return undefined;
+    }
+    const first_saved_at = new Date(earlier.at).toISOString();
+    return {
+      duplicate: true,
+      idempotency_key: key,
+      first_saved_at,
+      settled: earlier.settled,
+      ...(earlier.task_ids?.length ? { task_ids: earlier.task_ids } : {}),
+      message: `An identical ${tool} call was ${earlier.settled ? "already saved" : "already being saved"} at ${first_saved_at}, so this one was not stored again. Do not resend it.`
+    };
+  }
+
+  settle(key: string, task_ids: string[]) {
+    const write = this.writes.get(key);
+    if (write) Object.assign(write, { settled: true, task_ids });
+  }
+
+  release(key: string) {
+    this.writes.delete(key);
+  }
+}
+
+let toolGuard: ToolGuard | undefined;
+let idempotencyKeys: IdempotencyKeys | undefined;
+
+/** Shared by every session of the process, so a new session does not reset the limits. */
+export function getToolGuard(): ToolGuard {
+  if (!toolGuard) toolGuard = new ToolGuard(getConfig());
+  return toolGuard;
+}
+
+export function getIdempotencyKeys(): IdempotencyKeys {
+  if (!idempotencyKeys) idempotencyKeys = new IdempotencyKeys(getConfig().idempotencyWindowMs);
+  return idempotencyKeys;
+}
@@ -0,0 +1,211 @@
+import express, { Request, Response } from "express"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+import { v4 as uuidv4 } from "uuid"
+import { getBackend } from "./backend/index.js"
+import { getConfig } from "./config.js"
+import { getLogger } from "./logging.js"
+import { getMetrics } from "./metrics.js"
+import { createServer, sessionFromConfig, SessionContext } from "./server.js"
+import { allowedUserId } from "./service.js"
+
+export interface HttpOptions {
+  host: string
+  port: number
+}
+
+/** A session the server will not open; `status` is the HTTP status to answer with. */
+class SessionRejected extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Resolve the identity of an HTTP session from its request headers.
+ * The API key may be sent as `Authorization: Token <key>` (same scheme the
+ * MemOS API uses), `Authorization: Bearer <key>` or `X-Memos-Api-Key`; the user
+ * ID as `X-Memos-User-Id`.
+ *
+ * A session without its own key may only borrow MEMOS_API_KEY when
+ * MEMOS_HTTP_ALLOW_CONFIG_IDENTITY is set, and then only act as MEMOS_USER_ID
+ * or a user MEMOS_USER_ALLOW / MEMOS_USER_MAP permits, as per-call `user_id`s
+ * are checked. With its own key a session reaches only its own account.
+ */
+function sessionFromRequest(req: Request): SessionContext {
+  const config = getConfig();
+  const fallback = sessionFromConfig();
+
+  let apiKey = req.header("x-memos-api-key");
+  const authorization = req.header("authorization");
+  if (!apiKey && authorization) {
+    const match = /^(?:Token|Bearer)\s+(.+)$/i.exec(authorization.trim());
+    if (match) apiKey = match[1];
+  }
+
+  // The local backend has no accounts, so a key of its own proves nothing there.
+  const ownAccount = !!apiKey && getBackend().requiresApiKey;
+  if (!apiKey && getBackend().requiresApiKey && !config.httpAllowConfigIdentity) {
+    throw new SessionRejected(401, "Send your MemOS API key as \"Authorization: Token <key>\" or \"X-Memos-Api-Key\". This server does not share its own key with HTTP sessions.");
+  }
+
+  let userId = fallback.userId;
+  const requested = req.header("x-memos-user-id");
+  // The configured user belongs to the server's account, not to whoever brought their own key.
+  if (ownAccount && !requested) {
+    throw new SessionRejected(400, "Sessions with their own MemOS API key must also send the user to act as in \"X-Memos-User-Id\".");
+  }
+  if (requested) {
+    if (ownAccount || requested === fallback.userId) {
+      userId = requested;
+    } else {
+      try {
+        userId = allowedUserId(requested, config);
+      } catch (e) {
+        throw new SessionRejected(403, `X-Memos-User-Id: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+
+  return { apiKey: apiKey || fallback.apiKey, userId };
+}
+
+function sendJsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+export async function startHttpServer(options: HttpOptions) {
+  const app = express();
+  app.use(express.json({ limit: "50mb" }));
+
+  const streamableTransports: Record<string, StreamableHTTPServerTransport> = {};
+  const lastSeen: Record<string, number> = {};
+  const sseTransports: Record<string, SSEServerTransport> = {};
+  const fail = (res: Response, error: unknown, jsonRpc: boolean) => {
+    const status = error instanceof SessionRejected ? error.status : 500;
+    const message = error instanceof SessionRejected ? error.message : "Internal server error";
+    if (status >= 500) getLogger().error("http_request_failed", { error: error instanceof Error ? error.message : String(error) });
+    if (res.headersSent) return;
+    if (jsonRpc) sendJsonRpcError(res, status, message);
+    else res.status(status).send(message);
+  };
+
+  // Streamable HTTP: the session identity is bound when the client initializes.
+  app.post("/mcp", async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.header("mcp-session-id");
+      let transport = sessionId ? streamableTransports[sessionId] : undefined;
+      if (sessionId && transport) lastSeen[sessionId] = Date.now();
+
+      if (!transport) {
+        if (sessionId || !isInitializeRequest(req.body)) {
+          sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+          return;
+        }
+
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => uuidv4(),
+          onsessioninitialized: (id) => {
+            streamableTransports[id] = newTransport;
+            lastSeen[id] = Date.now();
+          }
+        });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            delete streamableTransports[newTransport.sessionId];
+            delete lastSeen[newTransport.sessionId];
+          }
+        };
+
+        const server = createServer(sessionFromRequest(req));
+        await server.connect(newTransport);
+        transport = newTransport;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      fail(res, error, true);
+    }
+  });
+
+  // GET opens the server-to-client notification stream, DELETE ends the session.
+  // Express 4 does not catch rejected promises, so every async handler catches its own.
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.header("mcp-session-id");
+      const transport = sessionId ? streamableTransports[sessionId] : undefined;
+      if (!transport) {
+        res.status(400).send("Invalid or missing session ID");
+        return;
+      }
+      lastSeen[sessionId!] = Date.now();
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      fail(res, error, false);
+    }
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // Legacy HTTP+SSE transport for clients that predate Streamable HTTP.
+  app.get("/sse", async (req: Request, res: Response) => {
+    try {
+      const session = sessionFromRequest(req);
+      const transport = new SSEServerTransport("/messages", res);
+      sseTransports[transport.sessionId] = transport;
+      res.on("close", () => {
+        delete sseTransports[transport.sessionId];
+      });
+
+      const server = createServer(session);
+      await server.connect(transport);
+    } catch (error) {
+      fail(res, error, false);
+    }
+  });
+
+  app.post("/messages", async (req: Request, res: Response) => {
+    try {
+      const sessionId = String(req.query.sessionId ?? "");
+      const transport = sseTransports[sessionId];
+      if (!transport) {
+        res.status(400).send("No transport found for sessionId");
+        return;
+      }
+      await transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      fail(res, error, false);
+    }
+  });
+
+  // Clients that vanish without DELETE would otherwise keep their session forever.
+  const idleMs = getConfig().httpSessionIdleMs;
+  if (idleMs > 0) {
+    setInterval(() => {
+      const cutoff = Date.now() - idleMs;
+      for (const [id, transport] of Object.entries(streamableTransports)) {
+        if ((lastSeen[id] ?? 0) > cutoff) continue;
+        getLogger().info("http_session_expired", { session_id: id, idle_ms: idleMs });
+        transport.close().catch(() => {});
+      }
+    }, Math.min(idleMs, 60_000)).unref();
+  }
+
+  if (getConfig().metricsEndpoint) {
+    app.get("/metrics", (_req: Request, res: Response) => {
+      res.type("text/plain; version=0.0.4").send(getMetrics().prometheus());
+    });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const httpServer = app.listen(options.port, options.host, () => resolve());
+    httpServer.on("error", reject);
+  });
+
+  getLogger().info("listening", { host: options.host, port: options.port });
+}
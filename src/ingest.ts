@@ -0,0 +1,310 @@
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, statSync } from "node:fs"
+import { homedir } from "node:os"
+import { basename, extname, join, relative, resolve } from "node:path"
+
+/** Most documents the API accepts in one `/add/knowledgebase-file` request. */
+export const KB_BATCH_FILES = 20;
+
+export interface KbFileInput {
+  content: string
+  file_name?: string
+  mime_type?: string
+}
+
+export interface KbIngestOptions {
+  /** Glob patterns a file found in a directory or glob must match (any of). */
+  include?: string[]
+  /** Glob patterns that skip a file found in a directory or glob. */
+  exclude?: string[]
+  maxFileBytes: number
+  maxTotalBytes: number
+}
+
+const EXTENSION_MIME: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".xml": "application/xml",
+  ".json": "application/json",
+  ".jsonl": "application/x-ndjson",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".log": "text/plain",
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".zip": "application/zip"
+};
+
+/** File signatures, checked before the extension: the content cannot lie about its type. */
+const MAGIC_BYTES: [signature: string, mime: string][] = [
+  ["%PDF-", "application/pdf"],
+  ["\x89PNG\r\n\x1a\n", "image/png"],
+  ["\xff\xd8\xff", "image/jpeg"],
+  ["GIF87a", "image/gif"],
+  ["GIF89a", "image/gif"],
+  ["\xd0\xcf\x11\xe0\xa1\xb1\x1a\xe1", "application/x-ole-storage"],
+  ["PK\x03\x04", "application/zip"]
+];
+
+function readHead(path: string, length: number): Buffer {
+  const fd = openSync(path, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    return buffer.subarray(0, readSync(fd, buffer, 0, length, 0));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * MIME type of a local file from its first bytes, falling back to its
+ * extension. Office formats share the ZIP and OLE containers, so those are
+ * refined by extension; unknown files without NUL bytes are taken as text.
+ */
+export function detectMimeType(path: string): string {
+  const head = readHead(path, 512);
+  const byExtension = EXTENSION_MIME[extname(path).toLowerCase()];
+  const signature = head.toString("latin1");
+
+  if (signature.startsWith("RIFF") && signature.slice(8, 12) === "WEBP") return "image/webp";
+  const magic = MAGIC_BYTES.find(([bytes]) => signature.startsWith(bytes))?.[1];
+  if (magic === "application/zip" || magic === "application/x-ole-storage") {
+    return byExtension ?? (magic === "application/zip" ? magic : "application/octet-stream");
+  }
+  if (magic) return magic;
+  if (byExtension) return byExtension;
+  return head.includes(0) ? "application/octet-stream" : "text/plain";
+}
+
+/**
+ * Minimal glob to RegExp: `**` spans directories, `*` and `?` stay within
+ * one, and `{a,b}` and `[...]` work as in the shell.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end < 0) {
+        source += "\\{";
+        continue;
+      }
+      source += `(?:${pattern.slice(i + 1, end).split(",").map(alt => globToRegExp(alt).source.slice(1, -1)).join("|")})`;
+      i = end;
+    } else if (c === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end < 0) {
+        source += "\\[";
+        continue;
+      }
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else {
+      source += c.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+/** Patterns without a slash match the file name at any depth, like .gitignore. */
+function globMatcher(patterns: string[]): (path: string) => boolean {
+  const matchers = patterns.map(p => ({ re: globToRegExp(p.replace(/^\.\//, "")), basename: !p.includes("/") }));
+  return path => matchers.some(({ re, basename: onName }) => re.test(onName ? path.slice(path.lastIndexOf("/") + 1) : path));
+}
+
+/** True when a path relative to a walked directory is hidden or inside a hidden directory, so `walk` never lists it. */
+export function isHiddenPath(rel: string): boolean {
+  return rel.split(/[\\/]/).some(segment => segment.startsWith("."));
+}
+
+/** Every regular file under `dir`, skipping hidden files and directories. */
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith(".")) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...walk(path));
+    else if (entry.isFile()) files.push(path);
+  }
+  return files;
+}
+
+/** Keep the files whose path relative to `base` passes the include/exclude patterns. */
+function selectFiles(base: string, files: string[], filter: Pick<KbIngestOptions, "include" | "exclude">): string[] {
+  const included = filter.include?.length ? globMatcher(filter.include) : () => true;
+  const excluded = filter.exclude?.length ? globMatcher(filter.exclude) : () => false;
+  return files.filter(file => {
+    const rel = relative(base, file).replace(/\\/g, "/");
+    return included(rel) && !excluded(rel);
+  });
+}
+
+/** Every file a directory upload of `dir` would include, as absolute paths. */
+export function listDirectory(dir: string, filter: Pick<KbIngestOptions, "include" | "exclude"> = {}): string[] {
+  return selectFiles(dir, walk(resolve(dir)), filter);
+}
+
+/**
+ * Normalize content that may be a local path: strips quotes, expands
+ * environment variables, `file://` URIs and `~`.
+ */
+export function resolveLocalPath(content: string): string {
+  let filePath = content.trim().replace(/^["']|["']$/g, '');
+
+  // Auto-expand environment variables (e.g. $HOME, %USERPROFILE%)
+  filePath = filePath.replace(/\$([A-Z_]+[A-Z0-9_]*)/ig, (_, n) => process.env[n] || `$${n}`);
+  filePath = filePath.replace(/%([A-Z_]+[A-Z0-9_]*)%/ig, (_, n) => process.env[n] || `%${n}%`);
+
+  if (filePath.startsWith("file://")) {
+      filePath = filePath.replace(/^file:\/\/\//, process.platform === "win32" ? "" : "/").replace(/^file:\/\//, "");
+      // File URIs might be percent-encoded (e.g. %20 for spaces)
+      try { filePath = decodeURI(filePath); } catch (e) {}
+  }
+
+  if (filePath.startsWith("~/") || filePath.startsWith("~\\")) {
+      filePath = homedir() + filePath.substring(1);
+  }
+  return filePath;
+}
+
+/** Split a glob into the directory to walk and the pattern relative to it. */
+function splitGlob(path: string): [base: string, pattern: string] {
+  const segments = path.replace(/\\/g, "/").split("/");
+  const first = segments.findIndex(s => GLOB_CHARS.test(s));
+  const base = segments.slice(0, first).join("/") || (path.startsWith("/") ? "/" : ".");
+  return [base, segments.slice(first).join("/")];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} bytes`;
+}
+
+/**
+ * Expand directories and globs into one entry per file and enforce the size
+ * limits before anything is read. Explicit files keep their `file_name` and
+ * `mime_type`; URLs and data URIs pass through.
+ */
+export function expandKbFiles(inputs: KbFileInput[], options: KbIngestOptions): KbFileInput[] {
+  const files: KbFileInput[] = [];
+  let total = 0;
+
+  const checkSize = (name: string, bytes: number) => {
+    if (bytes > options.maxFileBytes) {
+      throw new Error(`'${name}' is ${formatBytes(bytes)}, over the ${formatBytes(options.maxFileBytes)} per-file limit (MEMOS_KB_MAX_FILE_BYTES).`);
+    }
+    total += bytes;
+  };
+
+  for (const input of inputs) {
+    const path = resolveLocalPath(input.content);
+    let found: string[] | undefined;
+    let base = "";
+
+    if (existsSync(path) && statSync(path).isDirectory()) {
+      base = path;
+      found = walk(path);
+    } else if (!existsSync(path) && GLOB_CHARS.test(path) && !/^(?:https?:|data:)/.test(path)) {
+      const [dir, pattern] = splitGlob(path);
+      if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+        throw new Error(`No files match '${input.content}': directory '${dir}' does not exist.`);
+      }
+      const matches = globToRegExp(pattern);
+      base = dir;
+      found = walk(dir).filter(file => matches.test(relative(dir, file).replace(/\\/g, "/")));
+    }
+
+    if (!found) {
+      if (existsSync(path)) checkSize(path, statSync(path).size);
+      else if (input.content.startsWith("data:")) checkSize(input.file_name ?? "inline document", Math.floor(input.content.length * 3 / 4));
+      files.push(input);
+      continue;
+    }
+
+    const selected = selectFiles(base, found, options);
+    if (!selected.length) {
+      throw new Error(`No files found in '${input.content}'${options.include?.length || options.exclude?.length ? " after include/exclude filtering" : ""}.`);
+    }
+    for (const file of selected) {
+      checkSize(file, statSync(file).size);
+      files.push({ content: resolve(file), file_name: basename(file) });
+    }
+  }
+
+  if (total > options.maxTotalBytes) {
+    throw new Error(`The upload totals ${formatBytes(total)} in ${files.length} file(s), over the ${formatBytes(options.maxTotalBytes)} limit (MEMOS_KB_MAX_TOTAL_BYTES). Upload fewer files at a time, narrow them with include/exclude, or raise the limit.`);
+  }
+  return files;
+}
+
+/**
+ * A web link without its scheme, e.g. `www.example.com/doc.pdf`: it must
+ * strongly resemble a recognized domain, to avoid matching .pdf/.txt names.
+ */
+export function isBareUrl(content: string): boolean {
+  if (/^(?:https?:\/\/|data:)/.test(content)) return false;
+  return content.startsWith("www.") || /\.(com|org|net|io|cn|app|ai|me|co|dev)(?:\/|$)/i.test(content);
+}
+
+/**
+ * Turn a document given as a local path, URL or data URI into the form the
+ * API accepts: local files are read and inlined as base64 data URIs.
+ */
+export function prepareKbFile(f: KbFileInput) {
+  let content = f.content.trim().replace(/^["']|["']$/g, '');
+  let file_name = f.file_name;
+  let mime_type = f.mime_type;
+
+  // 1. Normalize potential local paths (isolated in filePath to protect URLs)
+  const filePath = resolveLocalPath(content);
+
+  // 2. Try to read it directly as a local file
+  if (existsSync(filePath)) {
+    try {
+      // Extract file name
+      const normalizedPath = filePath.replace(/\\/g, "/");
+      const extractedName = normalizedPath.substring(normalizedPath.lastIndexOf('/') + 1);
+      if (!file_name && extractedName) {
+        file_name = extractedName;
+      }
+
+      mime_type = mime_type || detectMimeType(filePath);
+      const fileBuffer = readFileSync(filePath);
+      content = `data:${mime_type};base64,` + fileBuffer.toString("base64");
+    } catch (err) {
+      throw new Error(`Failed to read local file at path '${filePath}'. Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } else {
+      // 3. Fallback: If it doesn't exist locally, pass it generally intact
+      if (isBareUrl(content)) {
+         content = "http://" + content;
+      }
+  }
+
+  return { ...f, content, name: file_name, mime_type };
+}
@@ -0,0 +1,122 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+import { appendFileSync, mkdirSync } from "node:fs"
+import { dirname } from "node:path"
+import { getConfig, MemosConfig } from "./config.js"
+import { getRedactor } from "./redaction/index.js"
+
+/** MCP logging levels, lowest first. */
+export const LOG_LEVELS = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number]
+
+/** Longest string kept in a logged body; longer ones (messages, Base64 files) are cut. */
+const LOGGED_STRING_LENGTH = 200;
+
+/** Which session and tool a log entry belongs to; carried across awaits. */
+export interface LogContext {
+  session: string
+  tool?: string
+}
+
+export interface LogEntry extends Partial<LogContext> {
+  time: string
+  level: LogLevel
+  event: string
+  [field: string]: unknown
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+/** Run `fn` so that everything it logs, including API calls, is tagged with `ctx`. */
+export function withLogContext<T>(ctx: LogContext, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...ctx }, fn);
+}
+
+/** True when `level` is at least `threshold`; `off` lets nothing through. */
+export function levelEnabled(level: LogLevel, threshold: LogLevel | "off"): boolean {
+  return threshold !== "off" && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * A request body fit for a log: strings are cut to a preview and passed
+ * through the redaction detectors, so no secret or full payload is written.
+ */
+export function loggableBody(value: unknown): unknown {
+  if (typeof value === "string") {
+    const text = value.length > LOGGED_STRING_LENGTH ? `${value.slice(0, LOGGED_STRING_LENGTH)}… (${value.length} chars)` : value;
+    return getRedactor().scrub(text);
+  }
+  if (Array.isArray(value)) return value.map(loggableBody);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, loggableBody(v)]));
+  }
+  return value;
+}
+
+/**
+ * Structured JSON logger. Entries at or above `MEMOS_LOG_LEVEL` are written
+ * one per line to `MEMOS_LOG_FILE`, or to stderr (stdout carries the stdio
+ * transport). Subscribers, which forward entries to MCP clients, get the
+ * ones at or above their own level.
+ */
+export class Logger {
+  private readonly listeners = new Map<(entry: LogEntry) => void, () => LogLevel | "off">()
+
+  constructor(private readonly options: Pick<MemosConfig, "logLevel" | "logFile">) {}
+
+  /** Receive the entries at or above `threshold`, which is read on every entry so it can change. */
+  subscribe(listener: (entry: LogEntry) => void, threshold: () => LogLevel | "off"): () => void {
+    this.listeners.set(listener, threshold);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Whether an entry at `level` would be written or forwarded, to skip building costly fields. */
+  enabled(level: LogLevel): boolean {
+    return levelEnabled(level, this.options.logLevel) || [...this.listeners.values()].some(threshold => levelEnabled(level, threshold()));
+  }
+
+  log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+    const entry: LogEntry = { time: new Date().toISOString(), level, event, ...context.getStore(), ...fields };
+    if (levelEnabled(level, this.options.logLevel)) this.write(entry);
+    for (const [listener, threshold] of this.listeners) {
+      if (levelEnabled(level, threshold())) listener(entry);
+    }
+  }
+
+  debug(event: string, fields?: Record<string, unknown>) {
+    this.log("debug", event, fields);
+  }
+
+  info(event: string, fields?: Record<string, unknown>) {
+    this.log("info", event, fields);
+  }
+
+  warning(event: string, fields?: Record<string, unknown>) {
+    this.log("warning", event, fields);
+  }
+
+  error(event: string, fields?: Record<string, unknown>) {
+    this.log("error", event, fields);
+  }
+
+  private write(entry: LogEntry) {
+    const line = JSON.stringify(entry) + "\n";
+    if (this.options.logFile) {
+      try {
+        mkdirSync(dirname(this.options.logFile), { recursive: true });
+        appendFileSync(this.options.logFile, line);
+        return;
+      } catch {
+        // Fall through to stderr rather than lose the entry.
+      }
+    }
+    process.stderr.write(line);
+  }
+}
+
+let logger: Logger | undefined;
+
+export function getLogger(): Logger {
+  if (!logger) logger = new Logger(getConfig());
+  return logger;
+}
@@ -0,0 +1,144 @@
+import { getSearchCache } from "./cache.js"
+
+/** Upper bounds of the latency histogram buckets, in seconds. */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+class Latency {
+  count = 0
+  errors = 0
+  totalMs = 0
+  maxMs = 0
+  readonly buckets = LATENCY_BUCKETS.map(() => 0)
+
+  observe(ms: number, ok: boolean) {
+    this.count++;
+    if (!ok) this.errors++;
+    this.totalMs += ms;
+    this.maxMs = Math.max(this.maxMs, ms);
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      if (ms / 1000 <= bound) this.buckets[i]++;
+    });
+  }
+
+  summary() {
+    return {
+      count: this.count,
+      errors: this.errors,
+      avg_ms: this.count ? Math.round(this.totalMs / this.count) : 0,
+      max_ms: Math.round(this.maxMs)
+    };
+  }
+}
+
+class EndpointStats extends Latency {
+  retries = 0
+  requestBytes = 0
+  responseBytes = 0
+}
+
+export interface ServerStats {
+  started_at: string
+  uptime_s: number
+  tools: Record<string, ReturnType<Latency["summary"]>>
+  endpoints: Record<string, ReturnType<Latency["summary"]> & { retries: number, request_bytes: number, response_bytes: number }>
+}
+
+function label(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Process-wide counters of tool calls and API requests: count, errors,
+ * latency and, for the API, retries and bytes. An endpoint's latency covers
+ * all of its attempts.
+ */
+export class Metrics {
+  private readonly startedAt = new Date()
+  private readonly tools = new Map<string, Latency>()
+  private readonly endpoints = new Map<string, EndpointStats>()
+
+  private endpoint(path: string): EndpointStats {
+    let stats = this.endpoints.get(path);
+    if (!stats) this.endpoints.set(path, stats = new EndpointStats());
+    return stats;
+  }
+
+  toolCall(tool: string, ms: number, ok: boolean) {
+    let stats = this.tools.get(tool);
+    if (!stats) this.tools.set(tool, stats = new Latency());
+    stats.observe(ms, ok);
+  }
+
+  request(path: string, ms: number, ok: boolean) {
+    this.endpoint(path).observe(ms, ok);
+  }
+
+  retry(path: string) {
+    this.endpoint(path).retries++;
+  }
+
+  bytes(path: string, sent: number, received: number) {
+    const stats = this.endpoint(path);
+    stats.requestBytes += sent;
+    stats.responseBytes += received;
+  }
+
+  snapshot(): ServerStats {
+    return {
+      started_at: this.startedAt.toISOString(),
+      uptime_s: Math.round((Date.now() - this.startedAt.getTime()) / 1000),
+      tools: Object.fromEntries([...this.tools].map(([tool, stats]) => [tool, stats.summary()])),
+      endpoints: Object.fromEntries([...this.endpoints].map(([path, stats]) => [path, {
+        ...stats.summary(),
+        retries: stats.retries,
+        request_bytes: stats.requestBytes,
+        response_bytes: stats.responseBytes
+      }]))
+    };
+  }
+
+  /** The Prometheus text exposition format, including the search cache counters. */
+  prometheus(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string, samples: [labels: string, value: number][]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) lines.push(`${name}${labels ? `{${labels}}` : ""} ${value}`);
+    };
+    const histogram = (name: string, help: string, key: string, series: Map<string, Latency>) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+      for (const [value, stats] of series) {
+        const l = `${key}="${label(value)}"`;
+        LATENCY_BUCKETS.forEach((bound, i) => lines.push(`${name}_bucket{${l},le="${bound}"} ${stats.buckets[i]}`));
+        lines.push(`${name}_bucket{${l},le="+Inf"} ${stats.count}`, `${name}_sum{${l}} ${stats.totalMs / 1000}`, `${name}_count{${l}} ${stats.count}`);
+      }
+    };
+    const per = <T>(series: Map<string, T>, key: string, value: (stats: T) => number): [string, number][] =>
+      [...series].map(([name, stats]) => [`${key}="${label(name)}"`, value(stats)]);
+
+    metric("memos_uptime_seconds", "gauge", "Seconds since the server started.", [["", Math.round((Date.now() - this.startedAt.getTime()) / 1000)]]);
+    metric("memos_tool_calls_total", "counter", "MCP tool calls.", per(this.tools, "tool", s => s.count));
+    metric("memos_tool_errors_total", "counter", "MCP tool calls that returned an error.", per(this.tools, "tool", s => s.errors));
+    histogram("memos_tool_duration_seconds", "MCP tool call latency.", "tool", this.tools);
+    metric("memos_api_requests_total", "counter", "Backend requests by endpoint.", per(this.endpoints, "endpoint", s => s.count));
+    metric("memos_api_errors_total", "counter", "Backend requests that failed after all retries.", per(this.endpoints, "endpoint", s => s.errors));
+    metric("memos_api_retries_total", "counter", "Retried backend request attempts.", per(this.endpoints, "endpoint", s => s.retries));
+    metric("memos_api_request_bytes_total", "counter", "Request body bytes sent to the MemOS API.", per(this.endpoints, "endpoint", s => s.requestBytes));
+    metric("memos_api_response_bytes_total", "counter", "Response body bytes received from the MemOS API.", per(this.endpoints, "endpoint", s => s.responseBytes));
+    histogram("memos_api_duration_seconds", "Backend request latency, including retries.", "endpoint", this.endpoints);
+
+    const cache = getSearchCache().stats();
+    metric("memos_search_cache_hits_total", "counter", "Searches answered from the cache.", [["", cache.hits]]);
+    metric("memos_search_cache_misses_total", "counter", "Searches sent to the API.", [["", cache.misses]]);
+    metric("memos_search_cache_evictions_total", "counter", "Entries evicted from the full cache.", [["", cache.evictions]]);
+    metric("memos_search_cache_invalidations_total", "counter", "Entries dropped after writes.", [["", cache.invalidations]]);
+    metric("memos_search_cache_entries", "gauge", "Entries in the search cache.", [["", cache.size]]);
+    return lines.join("\n") + "\n";
+  }
+}
+
+let metrics: Metrics | undefined;
+
+export function getMetrics(): Metrics {
+  if (!metrics) metrics = new Metrics();
+  return metrics;
+}
@@ -0,0 +1,56 @@
+import { existsSync, realpathSync } from "node:fs"
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "node:path"
+import { getConfig, MemosConfig } from "./config.js"
+import { isBareUrl, resolveLocalPath } from "./ingest.js"
+
+export type FileAccessOptions = Pick<MemosConfig, "fileRoot" | "transport">
+
+/** Where `path` really is: symlinks in its nearest existing ancestor resolved, the missing rest appended. */
+function realLocation(path: string): string {
+  const missing: string[] = [];
+  let existing = path;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    missing.unshift(basename(existing));
+    existing = dirname(existing);
+  }
+  return join(realpathSync(existing), ...missing);
+}
+
+/**
+ * `add_kb_document` content as the tools may upload it: URLs and data URIs
+ * unchanged, a bare domain such as `www.example.com/doc.pdf` as an http://
+ * URL, and anything else as a local path through `confinePath`. A value that
+ * starts like a path (`/`, `.`, `~`, a variable, a drive) is never a bare
+ * domain. Without confinement, content is left to `prepareKbFile` as before.
+ */
+export function confineContent(content: string, options: FileAccessOptions = getConfig()): string {
+  const value = content.trim().replace(/^["']|["']$/g, "");
+  if (/^(?:https?:\/\/|data:)/i.test(value)) return content;
+  if (!options.fileRoot && options.transport !== "http") return content;
+  if (isBareUrl(value) && !/^(?:[/.~$%\\]|[a-z]:|file:)/i.test(value)) return `http://${value}`;
+  return confinePath(content, options);
+}
+
+/**
+ * The path an MCP tool may read or write for `value`. With MEMOS_FILE_ROOT,
+ * a relative path starts at the root and one that resolves outside it,
+ * through `..` or a symlink, is refused. Without it, HTTP mode refuses local
+ * paths altogether: they would reach the server's files, not the client's.
+ * The CLI does not go through here; its user already has the shell.
+ */
+export function confinePath(value: string, options: FileAccessOptions = getConfig()): string {
+  if (!options.fileRoot) {
+    if (options.transport === "http") {
+      throw new Error(`Local paths such as '${value}' are disabled in HTTP mode. Set MEMOS_FILE_ROOT to the directory the tools may use, or pass a URL with its http(s):// scheme.`);
+    }
+    return value;
+  }
+
+  const root = realpathSync(resolve(options.fileRoot));
+  const path = realLocation(resolve(root, resolveLocalPath(value)));
+  const rel = relative(root, path);
+  if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`'${value}' is outside MEMOS_FILE_ROOT (${root}); the tools can only use files under it.`);
+  }
+  return path;
+}
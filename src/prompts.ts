@@ -0,0 +1,253 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { z } from "zod"
+
+const USAGE_GUIDE_EN = `# 🧠 MemOS Automatic Memory System — Mandatory Usage
+
+## ⚠️ Always-On (No User Opt-In Required)
+This system must run **automatically for every turn**. Do **not** wait for the user to say “use memory”, “use MCP”, or “call a tool”. The **client/orchestrator is responsible** for auto-invoking the tools.
+
+## 🎯 Mandatory 3-Step Workflow (Enforced by Client Each Turn)
+\`\`\`
+Every user message
+  → 1) 🔍 search_memory (AUTO, before answering)
+  → 2) 💬 Answer (use only relevant memories; ignore noise)
+  → 3) 💾 add_message (AUTO, after answering)
+\`\`\`
+
+### 1) 🔍 Search Memory (Auto-invoked BEFORE answering)
+- **Trigger**: Must be auto-called **before** generating any answer (including simple greetings).
+- **Tool**: \`search_memory\`
+- **Parameters**:
+  - \`query\`: Current user message (concise summary allowed)
+  - \`conversation_first_message\`: First user message in the thread (used to generate conversation_id)
+  - \`memory_limit_number\`: default 6
+
+**Relevance rule**: The model must judge relevance and **only use relevant** memories. If results are irrelevant or noisy, **ignore them** and proceed.
+
+### 2) 💬 Answer
+Use retrieved memories **only if relevant**. If none are relevant, answer normally.
+
+### 3) 💾 Save Conversation (Auto-invoked AFTER answering)
+- **Trigger**: Must be auto-called after producing the final answer on **every turn**.
+- **Tool**: \`add_message\`
+- **Purpose**: PRIMARY tool for recording **NEW facts/information** and persisting conversation history for future personalization.
+- **Rule**: If the user provides new information or wants to "remember" something new, use this. Do NOT use \`add_feedback\` for new additions.
+
+### 4) 🔄 Update/Correct/Delete Memory (User-triggered ONLY)
+- **Trigger**: User requests to **modify, update, correct, or delete** a memory.
+- **Workflow for Deletion (No ID provided)**:
+    1. 🔍 **Search**: Call \`search_memory\` to find the relevant memory IDs.
+    2. 🗑️ **Delete**: Call \`delete_memory\` with the IDs found.
+    3. 📝 **Feedback**: Call \`add_feedback\` to confirm deletion and prevent future recurrence.
+- **Workflow for Modification**:
+    - Use \`add_feedback\` to describe the correction.
+- **Rule**: Never use these tools for adding new information (use \`add_message\` instead).
+
+### 5) 👤 Holistic context & Knowledge Management (User-triggered)
+- **Tool: \`get_user_profile\`**:
+    - **Trigger**: User asks "Who am I?", "What do you know about me?", or requests a summary/profile of their identity/preferences/habits.
+    - **Note**: This provides a structured factual & preference profile. It does NOT replace the mandatory \`search_memory\` call.
+- **Knowledge Base (KB) Tools**:
+    - **Trigger**: User mentions "Knowledge Base", "KB", or interacts with structured project documents/manuals.
+    - **Tools**: \`create_knowledge_base\`, \`add_kb_document\`, \`get_kb_documents\`, \`delete_kb_documents\`, \`remove_knowledge_base\`.
+
+## ✅ Non-Negotiable Client Responsibilities
+1. **Auto-invoke** \`search_memory\` before **every** answer and \`add_message\` after **every** answer.
+2. **No user opt-in**: Do not wait for the user to explicitly mention memory/tools/MCP.
+3. **Stable \`conversation_first_message\`** across the thread.
+4. **Store both user and assistant** messages every turn.
+5. **Sequence**: Search → Answer → Save.
+6. **Correct Tool Choice**: 
+    - Use \`add_message\` for ALL new content (adding facts). 
+    - Use \`add_feedback\` ONLY for updates, corrections, or refinements.
+    - Use \`get_user_profile\` for identity summaries or "Who am I?" requests.
+    - Use KB tools for document/manual management.
+
+## Example (pseudo-flow)
+\`\`\`javascript
+// User: "What's the weather today?"
+
+// Client auto-invokes search (ALWAYS)
+search_memory({ query: "What's the weather today?", conversation_first_message: "What's the weather today?", memory_limit_number: 6 })
+// → returns candidate memories (maybe none)
+
+// Model answers using only relevant items (or none)
+
+// Client auto-invokes save (ALWAYS)
+add_message({
+  conversation_first_message: "What's the weather today?",
+  messages: [
+    { role: "user", content: "What's the weather today?" },
+    { role: "assistant", content: "[Your complete response]" }
+  ]
+})
+\`\`\`
+`
+
+const USAGE_GUIDE_ZH = `# 🧠 MemOS 自动记忆系统 — 强制使用规范
+
+## ⚠️ 始终开启（无需用户授权）
+本系统必须在**每一轮对话中自动运行**。**不要**等待用户说“使用记忆”“使用 MCP”或“调用工具”。**客户端/编排器负责**自动调用这些工具。
+
+## 🎯 强制三步流程（由客户端在每一轮执行）
+\`\`\`
+每条用户消息
+  → 1) 🔍 search_memory（自动，回答之前）
+  → 2) 💬 回答（只使用相关记忆，忽略噪声）
+  → 3) 💾 add_message（自动，回答之后）
+\`\`\`
+
+### 1) 🔍 检索记忆（回答前自动调用）
+- **触发**：在生成任何回答**之前**必须自动调用（包括简单的问候）。
+- **工具**：\`search_memory\`
+- **参数**：
+  - \`query\`：当前用户消息（可使用简洁摘要）
+  - \`conversation_first_message\`：本会话中用户的第一条消息（用于生成 conversation_id）
+  - \`memory_limit_number\`：默认 6
+
+**相关性规则**：模型必须自行判断相关性，**只使用相关**的记忆。如果结果不相关或有噪声，**忽略它们**并继续。
+
+### 2) 💬 回答
+仅在记忆**相关时**使用检索结果；若都不相关，则正常回答。
+
+### 3) 💾 保存对话（回答后自动调用）
+- **触发**：每一轮生成最终回答后都必须自动调用。
+- **工具**：\`add_message\`
+- **用途**：记录**新事实/新信息**并保存对话历史以便后续个性化的主要工具。
+- **规则**：用户提供新信息或希望“记住”新内容时使用此工具。新增内容**不要**使用 \`add_feedback\`。
+
+### 4) 🔄 更新/更正/删除记忆（仅由用户触发）
+- **触发**：用户要求**修改、更新、更正或删除**某条记忆。
+- **删除流程（未提供 ID 时）**：
+    1. 🔍 **检索**：调用 \`search_memory\` 找到相关记忆 ID。
+    2. 🗑️ **删除**：使用找到的 ID 调用 \`delete_memory\`。
+    3. 📝 **反馈**：调用 \`add_feedback\` 确认删除并防止再次出现。
+- **修改流程**：
+    - 使用 \`add_feedback\` 描述更正内容。
+- **规则**：切勿使用这些工具新增信息（请使用 \`add_message\`）。
+
+### 5) 👤 整体画像与知识库管理（由用户触发）
+- **工具：\`get_user_profile\`**：
+    - **触发**：用户询问“我是谁？”“你了解我什么？”，或要求总结其身份/偏好/习惯。
+    - **注意**：它提供结构化的事实与偏好画像，但**不能替代**必需的 \`search_memory\` 调用。
+- **知识库（KB）工具**：
+    - **触发**：用户提到“知识库”“KB”，或涉及结构化的项目文档/手册。
+    - **工具**：\`create_knowledge_base\`、\`add_kb_document\`、\`get_kb_documents\`、\`delete_kb_documents\`、\`remove_knowledge_base\`。
+
+## ✅ 客户端不可协商的职责
+1. 在**每次**回答前**自动调用** \`search_memory\`，回答后自动调用 \`add_message\`。
+2. **无需用户授权**：不要等待用户明确提及记忆/工具/MCP。
+3. 整个会话中保持 **\`conversation_first_message\` 不变**。
+4. 每一轮都**同时保存用户和助手**的消息。
+5. **顺序**：检索 → 回答 → 保存。
+6. **正确选择工具**：
+    - 所有新内容（新增事实）使用 \`add_message\`。
+    - 仅在更新、更正或完善时使用 \`add_feedback\`。
+    - 身份总结或“我是谁？”使用 \`get_user_profile\`。
+    - 文档/手册管理使用知识库工具。
+
+## 示例（伪流程）
+\`\`\`javascript
+// 用户：“今天天气怎么样？”
+
+// 客户端自动检索（始终执行）
+search_memory({ query: "今天天气怎么样？", conversation_first_message: "今天天气怎么样？", memory_limit_number: 6 })
+// → 返回候选记忆（可能为空）
+
+// 模型只使用相关条目作答（或不使用）
+
+// 客户端自动保存（始终执行）
+add_message({
+  conversation_first_message: "今天天气怎么样？",
+  messages: [
+    { role: "user", content: "今天天气怎么样？" },
+    { role: "assistant", content: "[你的完整回答]" }
+  ]
+})
+\`\`\`
+`
+
+function userMessage(text: string) {
+  return {
+    messages: [{
+      role: "user" as const,
+      content: { type: "text" as const, text }
+    }]
+  };
+}
+
+/**
+ * Register the usage guide and the workflow prompts that chain the memory
+ * and knowledge base tools together. A workflow prompt is skipped when one
+ * of the tools it calls is not exposed.
+ */
+export function registerPrompts(server: McpServer, isExposed: (tool: string) => boolean = () => true) {
+  const exposes = (...tools: string[]) => tools.every(isExposed);
+
+  server.prompt(
+    "usage-guide",
+    "Memorization and retrieval tools usage guide",
+    {
+      language: z.enum(["en", "zh"]).optional().describe("Guide language: \"en\" (default) or \"zh\"")
+    },
+    ({ language }) => userMessage(language === "zh" ? USAGE_GUIDE_ZH : USAGE_GUIDE_EN)
+  );
+
+  if (exposes("search_memory", "add_message")) server.prompt(
+    "recall-then-answer",
+    "Search memory for the question, keep only relevant memories, answer, then save the turn",
+    {
+      query: z.string().describe("The user's question"),
+      conversation_first_message: z.string().optional().describe("First user message of the thread. Defaults to the question itself")
+    },
+    ({ query, conversation_first_message }) => {
+      const firstMessage = conversation_first_message || query;
+      return userMessage(`Answer the following question using what you remember about me.
+
+Question: ${query}
+
+Steps:
+1. Call \`search_memory\` with \`query\` set to the question and \`conversation_first_message\` set to ${JSON.stringify(firstMessage)}.
+2. Review the results. Discard any memory that is only an '[assistant opinion]', describes someone other than me, is unrelated to the question, or conflicts with what I am saying now.
+3. Answer the question directly, using only the memories that survived step 2. Do not mention memory, retrieval or these steps.
+4. Call \`add_message\` with the same \`conversation_first_message\` and both my question and your full answer.`);
+    }
+  );
+
+  if (exposes("search_memory", "delete_memory", "add_feedback")) server.prompt(
+    "memory-cleanup",
+    "Find memories about a topic, confirm with the user, delete them and record the deletion",
+    {
+      topic: z.string().describe("What the user wants forgotten, in their own words")
+    },
+    ({ topic }) => userMessage(`I want you to forget memories about: ${topic}
+
+Steps:
+1. Call \`search_memory\` with a query describing the topic to find candidate memories.
+2. Show me the candidates (content only, no IDs) and ask which ones to remove. Do not continue until I confirm.
+3. Call \`delete_memory\` ONCE with the IDs of every memory I confirmed. If it returns \`confirmation_required\`, nothing was deleted yet: show me the \`preview\` it returned and ask me to confirm. Only after I explicitly approve that preview, call it again with the same IDs and the \`confirmation_token\`; if I do not, stop here and tell me nothing was deleted.
+4. Call \`add_feedback\` ONCE with my intent in natural language, e.g. "User wants to delete memories about ${topic}". Do not include IDs.
+5. Tell me what was removed. Do not search again to check, and do not retry if a step fails; report the error instead.`)
+  );
+
+  if (exposes("create_knowledge_base", "add_kb_document", "get_kb_documents")) server.prompt(
+    "build-kb-from-files",
+    "Create a knowledge base and upload local files or URLs into it",
+    {
+      knowledgebase_name: z.string().describe("Name of the knowledge base to create"),
+      files: z.string().describe("Absolute file paths or URLs, separated by newlines or commas"),
+      description: z.string().optional().describe("What the knowledge base contains")
+    },
+    ({ knowledgebase_name, files, description }) => {
+      const list = files.split(/[\n,]/).map(f => f.trim()).filter(Boolean);
+      return userMessage(`Build a knowledge base named ${JSON.stringify(knowledgebase_name)} from these files:
+${list.map(f => `- ${f}`).join("\n")}
+
+Steps:
+1. Call \`create_knowledge_base\` with \`knowledgebase_name\`${description ? ` and \`knowledgebase_description\` set to ${JSON.stringify(description)}` : ""}.
+2. Call \`add_kb_document\` with the new knowledge base ID. Pass each local file as its absolute path in \`content\` (do not Base64-encode it yourself) and URLs as-is. Send at most 20 files per call.
+3. Call \`get_kb_documents\` with the returned file IDs and report each document's name and processing status.
+4. If any call fails, report the original error and stop. Do not retry with different parameters.`);
+    }
+  );
+}
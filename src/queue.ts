@@ -0,0 +1,244 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "node:fs"
+import { createHash } from "node:crypto"
+import { join } from "node:path"
+import { v4 as uuidv4 } from "uuid"
+import { getBackend } from "./backend/index.js"
+import { getConfig } from "./config.js"
+import { MemosAuthError, MemosError } from "./errors.js"
+
+export type QueuedTool = "add_message" | "add_feedback"
+
+export interface QueuedWrite {
+  id: string
+  tool: QueuedTool
+  path: string
+  body: Record<string, any>
+  source: string
+  /** SHA-256 of the API key; the key itself is never written to disk. */
+  key_hash: string
+  enqueued_at: string
+}
+
+type QueueRecord =
+  | ({ type: "write" } & QueuedWrite)
+  | { type: "done", id: string, at: string }
+  | { type: "dropped", id: string, at: string, error: string }
+
+export interface DrainResult {
+  flushed: string[]
+  dropped: { id: string, error: string }[]
+  remaining: number
+  error?: string
+}
+
+/** A lock older than this is assumed to belong to a crashed process. */
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+function hashKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Durable write-ahead queue for memory writes that could not reach the MemOS
+ * API. Entries are appended to `queue.jsonl` and replayed in insertion order;
+ * completed entries are marked with a follow-up record and the file is
+ * compacted once nothing is pending.
+ */
+export class WriteQueue {
+  private readonly file: string
+  private readonly lockFile: string
+  private tail: Promise<unknown> = Promise.resolve()
+
+  constructor(readonly dir: string) {
+    this.file = join(dir, "queue.jsonl");
+    this.lockFile = join(dir, "queue.lock");
+  }
+
+  private append(record: QueueRecord) {
+    mkdirSync(this.dir, { recursive: true });
+    appendFileSync(this.file, JSON.stringify(record) + "\n", { encoding: "utf8", mode: 0o600 });
+  }
+
+  private readPending(): QueuedWrite[] {
+    if (!existsSync(this.file)) return [];
+
+    const pending = new Map<string, QueuedWrite>();
+    for (const line of readFileSync(this.file, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      let record: QueueRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn trailing line from an interrupted append; skip it.
+        continue;
+      }
+      if (record.type === "write") {
+        const { type, ...entry } = record;
+        pending.set(entry.id, entry);
+      } else {
+        pending.delete(record.id);
+      }
+    }
+    return [...pending.values()];
+  }
+
+  /**
+   * Rewrite the file with only the still-pending entries. Skipped when another
+   * process appended in the meantime; the next drain will compact instead.
+   */
+  private compact() {
+    if (!existsSync(this.file)) return;
+    const size = statSync(this.file).size;
+    const pending = this.readPending();
+    const unchanged = () => existsSync(this.file) && statSync(this.file).size === size;
+
+    if (pending.length === 0) {
+      if (unchanged()) unlinkSync(this.file);
+      return;
+    }
+    const tmp = this.file + ".tmp";
+    writeFileSync(tmp, pending.map(entry => JSON.stringify({ type: "write", ...entry })).join("\n") + "\n", { encoding: "utf8", mode: 0o600 });
+    if (unchanged()) {
+      renameSync(tmp, this.file);
+    } else {
+      unlinkSync(tmp);
+    }
+  }
+
+  private acquireLock(): boolean {
+    mkdirSync(this.dir, { recursive: true });
+    try {
+      writeFileSync(this.lockFile, String(process.pid), { flag: "wx" });
+      return true;
+    } catch {
+      try {
+        if (Date.now() - statSync(this.lockFile).mtimeMs > STALE_LOCK_MS) {
+          unlinkSync(this.lockFile);
+          writeFileSync(this.lockFile, String(process.pid), { flag: "wx" });
+          return true;
+        }
+      } catch {
+        // Another process won the race for the stale lock.
+      }
+      return false;
+    }
+  }
+
+  private releaseLock() {
+    try {
+      unlinkSync(this.lockFile);
+    } catch {
+      // ignore
+    }
+  }
+
+  enqueue(apiKey: string, write: Omit<QueuedWrite, "id" | "key_hash" | "enqueued_at">): QueuedWrite {
+    const entry: QueuedWrite = {
+      id: uuidv4(),
+      ...write,
+      key_hash: hashKey(apiKey),
+      enqueued_at: new Date().toISOString()
+    };
+    this.append({ type: "write", ...entry });
+    return entry;
+  }
+
+  /** Pending entries that belong to the given API key, oldest first. */
+  pending(apiKey: string): QueuedWrite[] {
+    const keyHash = hashKey(apiKey);
+    return this.readPending().filter(entry => entry.key_hash === keyHash);
+  }
+
+  /**
+   * Replay pending entries for the given API key in order. Stops at the first
+   * retryable failure so later writes never overtake earlier ones; entries the
+   * API rejects outright are marked as dropped.
+   */
+  drain(apiKey: string): Promise<DrainResult> {
+    // Serialize drains within this process; the lock file covers other processes.
+    const run = this.tail.then(() => this.drainLocked(apiKey));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async drainLocked(apiKey: string): Promise<DrainResult> {
+    const result: DrainResult = { flushed: [], dropped: [], remaining: this.pending(apiKey).length };
+    if (result.remaining === 0) return result;
+
+    if (!this.acquireLock()) {
+      return { ...result, error: "Another memos-api-mcp process is replaying the queue" };
+    }
+
+    try {
+      for (const entry of this.pending(apiKey)) {
+        try {
+          await getBackend().request(entry.path, entry.body, apiKey, entry.source);
+          this.append({ type: "done", id: entry.id, at: new Date().toISOString() });
+          result.flushed.push(entry.id);
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          if (e instanceof MemosAuthError || (e instanceof MemosError && e.retryable)) {
+            result.error = message;
+            break;
+          }
+          this.append({ type: "dropped", id: entry.id, at: new Date().toISOString(), error: message });
+          result.dropped.push({ id: entry.id, error: message });
+        }
+      }
+      this.compact();
+    } finally {
+      this.releaseLock();
+    }
+
+    result.remaining = this.pending(apiKey).length;
+    return result;
+  }
+}
+
+let instance: WriteQueue | undefined;
+
+/** The process-wide queue under the configured `queueDir`. */
+export function getWriteQueue(): WriteQueue {
+  if (!instance) instance = new WriteQueue(getConfig().queueDir);
+  return instance;
+}
+
+/**
+ * Whether a failed write should be kept for later instead of being reported
+ * as lost: only failures where the backend was unreachable or overloaded.
+ */
+export function isQueueable(e: unknown): boolean {
+  return e instanceof MemosError && e.retryable;
+}
+
+/**
+ * Send a memory write, or queue it when the API is unreachable. Earlier
+ * queued writes for the same key are replayed first so ordering is kept.
+ */
+export async function sendOrQueue(tool: QueuedTool, path: string, body: Record<string, any>, apiKey: string, source: string) {
+  const writeQueue = getWriteQueue();
+  const queueWrite = (reason: string) => {
+    const entry = writeQueue.enqueue(apiKey, { tool, path, body, source });
+    return {
+      queued: true,
+      queue_id: entry.id,
+      pending: writeQueue.pending(apiKey).length,
+      message: "MemOS API is unreachable. The write was saved locally and will be replayed automatically once the API is reachable again.",
+      reason
+    };
+  };
+
+  if (writeQueue.pending(apiKey).length > 0) {
+    const drained = await writeQueue.drain(apiKey);
+    if (drained.remaining > 0) {
+      return queueWrite(drained.error ?? "earlier writes are still pending");
+    }
+  }
+
+  try {
+    return await getBackend().request(path, body, apiKey, source);
+  } catch (e) {
+    if (!isQueueable(e)) throw e;
+    return queueWrite(e instanceof Error ? e.message : String(e));
+  }
+}
@@ -0,0 +1,80 @@
+export interface Detector {
+  name: string
+  pattern: RegExp
+  /** Extra check on a match, e.g. a checksum, to cut false positives. */
+  validate?: (match: string) => boolean
+  /** Personal data rather than a credential; only used when listed in MEMOS_REDACT_DETECTORS. */
+  personal?: boolean
+}
+
+/** Luhn checksum used by payment card numbers. */
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Issuer prefixes of the major card networks and the lengths they issue:
+ * Visa, Mastercard, American Express, Discover, JCB, UnionPay and Diners Club.
+ */
+const CARD_NETWORKS: [prefix: RegExp, lengths: number[]][] = [
+  [/^4/, [13, 16, 19]],
+  [/^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/, [16]],
+  [/^3[47]/, [15]],
+  [/^(?:6011|64[4-9]|65)/, [16, 17, 18, 19]],
+  [/^35(?:2[89]|[3-8]\d)/, [16, 17, 18, 19]],
+  [/^62/, [16, 17, 18, 19]],
+  [/^(?:30[0-5]|36|3[89])/, [14, 15, 16, 17, 18, 19]]
+];
+
+/**
+ * A payment card number: a network's prefix and length, and the Luhn
+ * checksum. The checksum alone passes one number in ten, so timestamps,
+ * order numbers and IDs would otherwise be taken for cards.
+ */
+function cardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  return CARD_NETWORKS.some(([prefix, lengths]) => prefix.test(digits) && lengths.includes(digits.length)) && luhn(digits);
+}
+
+const CN_ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const CN_ID_CHECK = "10X98765432";
+
+/** GB 11643 checksum of an 18-digit resident identity card number. */
+function chineseIdChecksum(match: string): boolean {
+  const id = match.toUpperCase();
+  const sum = CN_ID_WEIGHTS.reduce((acc, weight, i) => acc + weight * Number(id[i]), 0);
+  return CN_ID_CHECK[sum % 11] === id[17];
+}
+
+/** Built-in detectors, applied in this order. */
+export const BUILTIN_DETECTORS: Detector[] = [
+  { name: "private_key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: "openai_key", pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "slack_token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: "google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, personal: true },
+  { name: "cn_id_card", pattern: /(?<![0-9A-Za-z])[1-9]\d{5}(?:18|19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dXx](?![0-9A-Za-z])/g, validate: chineseIdChecksum, personal: true },
+  // Before credit_card: a phone number with country code can pass the Luhn check.
+  { name: "cn_phone", pattern: /(?<!\d)(?:\+?86[- ]?)?1[3-9]\d(?:[- ]?\d{4}){2}(?!\d)/g, personal: true },
+  { name: "credit_card", pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, validate: cardNumber }
+];
+
+export const DETECTOR_NAMES = BUILTIN_DETECTORS.map(d => d.name);
+
+/**
+ * Detectors on by default: credentials and card numbers. Personal data such
+ * as email addresses is often what a memory is about, so removing it is opt-in.
+ */
+export const DEFAULT_DETECTORS = BUILTIN_DETECTORS.filter(d => !d.personal).map(d => d.name);
@@ -0,0 +1,114 @@
+import { createHash } from "node:crypto"
+import { appendFileSync, mkdirSync } from "node:fs"
+import { dirname } from "node:path"
+import { ALLOW_PATTERN, getConfig, maskSecret, MemosConfig } from "../config.js"
+import { getLogger } from "../logging.js"
+import { BUILTIN_DETECTORS, Detector } from "./detectors.js"
+
+export { BUILTIN_DETECTORS, DEFAULT_DETECTORS, DETECTOR_NAMES } from "./detectors.js"
+export type { Detector } from "./detectors.js"
+
+export type RedactionOptions = Pick<MemosConfig, "redact" | "redactDetectors" | "redactRules" | "redactAllow" | "redactLog">
+
+/** Where a piece of text came from, recorded with each redaction. */
+export interface RedactionContext {
+  tool: string
+  field: string
+  conversation_id?: string
+}
+
+/**
+ * One line of the redaction log. The removed value itself is never written:
+ * only a masked preview and its SHA-256, enough to answer "was X removed?".
+ */
+export interface RedactionRecord extends RedactionContext {
+  time: string
+  detector: string
+  preview: string
+  sha256: string
+}
+
+/** `/regex/flags` entries are patterns; anything else must match exactly. */
+function toAllowMatcher(entry: string): (value: string) => boolean {
+  const match = ALLOW_PATTERN.exec(entry);
+  if (match) {
+    const re = new RegExp(`^(?:${match[1]})$`, match[2]);
+    return value => re.test(value);
+  }
+  return value => value === entry;
+}
+
+/**
+ * Replaces secrets and personal data with `[REDACTED:<detector>]` before text
+ * leaves the machine, and logs every replacement to a local JSONL file.
+ */
+export class Redactor {
+  private readonly detectors: Detector[]
+  private readonly allowed: ((value: string) => boolean)[]
+
+  constructor(private readonly options: RedactionOptions) {
+    const custom: Detector[] = options.redactRules.map(rule => ({
+      name: rule.name,
+      pattern: new RegExp(rule.pattern, `${rule.flags ?? ""}g`)
+    }));
+    this.detectors = options.redact
+      ? [...BUILTIN_DETECTORS.filter(d => options.redactDetectors.includes(d.name)), ...custom]
+      : [];
+    this.allowed = options.redactAllow.map(toAllowMatcher);
+  }
+
+  get enabled(): boolean {
+    return this.detectors.length > 0;
+  }
+
+  redact(text: string, context: RedactionContext): string {
+    const records: RedactionRecord[] = [];
+    const result = this.replace(text, (detector, match) => records.push({
+      time: new Date().toISOString(),
+      ...context,
+      detector: detector.name,
+      preview: maskSecret(match),
+      sha256: createHash("sha256").update(match).digest("hex")
+    }));
+
+    if (records.length) this.log(records);
+    return result;
+  }
+
+  /** The same replacements without a log entry, for text that only goes to local diagnostics. */
+  scrub(text: string): string {
+    return this.replace(text);
+  }
+
+  private replace(text: string, onMatch?: (detector: Detector, match: string) => void): string {
+    if (!this.enabled || !text) return text;
+
+    let result = text;
+    for (const detector of this.detectors) {
+      result = result.replace(detector.pattern, (match) => {
+        if (this.allowed.some(allow => allow(match))) return match;
+        if (detector.validate && !detector.validate(match)) return match;
+        onMatch?.(detector, match);
+        return `[REDACTED:${detector.name}]`;
+      });
+    }
+    return result;
+  }
+
+  private log(records: RedactionRecord[]) {
+    try {
+      mkdirSync(dirname(this.options.redactLog), { recursive: true });
+      appendFileSync(this.options.redactLog, records.map(r => JSON.stringify(r)).join("\n") + "\n", { mode: 0o600 });
+    } catch (e) {
+      // Never block a write because the log is unavailable; the text is already redacted.
+      getLogger().error("redaction_log_failed", { error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+}
+
+let redactor: Redactor | undefined;
+
+export function getRedactor(): Redactor {
+  if (!redactor) redactor = new Redactor(getConfig());
+  return redactor;
+}
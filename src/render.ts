@@ -0,0 +1,138 @@
+const ASSISTANT_PREFIX = /^\[assistant opinion\]\s*/i;
+/** Longest text kept for a single entry, in characters. */
+const MAX_ENTRY_CHARS = 800;
+/** Character-bigram Jaccard similarity above which two entries count as duplicates. */
+const DUPLICATE_SIMILARITY = 0.9;
+
+const GROUPS: [key: string, title: string][] = [
+  ["memory_detail_list", "Facts"],
+  ["preference_detail_list", "Preferences"],
+  ["tool_memory_detail_list", "Tool memories"],
+  ["skill_detail_list", "Skills"]
+];
+
+/** The human-readable content of a memory item, whatever its kind. */
+export function memoryText(item: any): string {
+  if (typeof item !== "object" || item === null) return String(item);
+  return item.memory_value ?? item.preference ?? item.tool_value ?? item.skill_value ?? item.content ?? JSON.stringify(item);
+}
+
+interface Entry {
+  group: number
+  rank: number
+  relativity: number
+  item: any
+  normalized: string
+  /** IDs of near-duplicates merged into this entry, so they can still be deleted. */
+  mergedIds: string[]
+}
+
+/**
+ * Rough token count: CJK characters are about one token each, other text
+ * about four characters per token. Good enough to size a budget.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function normalize(text: string): string {
+  return text.replace(ASSISTANT_PREFIX, "").toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, "");
+}
+
+function bigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) grams.add(text.slice(i, i + 2));
+  return grams;
+}
+
+function similar(a: string, b: string): boolean {
+  if (a === b) return true;
+  // "30 years old" and "31 years old" are different facts, however similar.
+  if (a.replace(/\D/g, "") !== b.replace(/\D/g, "")) return false;
+  if (Math.min(a.length, b.length) / Math.max(a.length, b.length) < DUPLICATE_SIMILARITY) return false;
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  let shared = 0;
+  for (const g of ga) if (gb.has(g)) shared++;
+  return shared / (ga.size + gb.size - shared) >= DUPLICATE_SIMILARITY;
+}
+
+function toLine({ item, mergedIds }: Entry): string {
+  let text = memoryText(item).replace(/\s*\n\s*/g, " ").trim();
+  const opinion = ASSISTANT_PREFIX.test(text);
+  if (opinion) text = text.replace(ASSISTANT_PREFIX, "");
+  if (text.length > MAX_ENTRY_CHARS) text = `${text.slice(0, MAX_ENTRY_CHARS)}…`;
+
+  const labels: string[] = [];
+  if (opinion) labels.push("**[assistant opinion — unverified]**");
+  if (item?.knowledgebase_id) labels.push(`[KB: ${item.memory_key || item.knowledgebase_id}]`);
+
+  const meta: string[] = [];
+  if (typeof item?.create_time === "string") meta.push(item.create_time.slice(0, 10));
+  const ids = [item?.id, ...mergedIds].filter(Boolean);
+  if (ids.length) meta.push(`${ids.length > 1 ? "ids" : "id"}: ${ids.join(", ")}`);
+
+  return `- ${[...labels, text].join(" ")}${meta.length ? ` (${meta.join(", ")})` : ""}`;
+}
+
+/**
+ * Compact Markdown view of a `/search/memory` response for the model:
+ * grouped by kind, near-duplicates removed, assistant opinions labeled, and
+ * the lowest-relevance entries dropped until it fits `tokenBudget`.
+ */
+export function renderSearchMarkdown(payload: any, tokenBudget: number): string {
+  let entries: Entry[] = [];
+  GROUPS.forEach(([key], group) => {
+    const items: any[] = Array.isArray(payload?.[key]) ? payload[key] : [];
+    items.forEach((item, rank) => {
+      entries.push({
+        group,
+        rank,
+        relativity: typeof item?.relativity === "number" ? item.relativity : 0,
+        item,
+        normalized: normalize(memoryText(item)),
+        mergedIds: []
+      });
+    });
+  });
+
+  const unique: Entry[] = [];
+  for (const entry of entries) {
+    const original = unique.find(other => other.group === entry.group && similar(other.normalized, entry.normalized));
+    if (!original) {
+      unique.push(entry);
+    } else if (entry.item?.id) {
+      original.mergedIds.push(entry.item.id);
+    }
+  }
+  const duplicates = entries.length - unique.length;
+  entries = unique;
+
+  const render = (kept: Entry[], omitted: number) => {
+    const lines: string[] = [];
+    GROUPS.forEach(([, title], group) => {
+      const inGroup = kept.filter(e => e.group === group);
+      if (!inGroup.length) return;
+      if (lines.length) lines.push("");
+      lines.push(`## ${title}`, ...inGroup.map(toLine));
+    });
+    if (!lines.length) lines.push("No relevant memories found.");
+    const notes: string[] = [];
+    if (duplicates) notes.push(`${duplicates} near-duplicate(s) merged`);
+    if (omitted) notes.push(`${omitted} lower-relevance result(s) omitted to fit the token budget`);
+    if (notes.length) lines.push("", `_${notes.join("; ")}._`);
+    return lines.join("\n");
+  };
+
+  // Drop the least relevant entries (latest-ranked first on ties) until the view fits.
+  const byPriority = [...entries].sort((a, b) => b.relativity - a.relativity || a.rank - b.rank);
+  let keep = byPriority.length;
+  let text = render(entries, 0);
+  while (keep > 0 && estimateTokens(text) > tokenBudget) {
+    keep--;
+    const kept = new Set(byPriority.slice(0, keep));
+    text = render(entries.filter(e => kept.has(e)), entries.length - keep);
+  }
+  return text;
+}
@@ -0,0 +1,191 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js"
+import { payloadOf } from "./service.js"
+import { getSearchCache } from "./cache.js"
+import { TrackedTask } from "./tasks.js"
+
+/** Sends a request to the backend in the identity of the current session. */
+export type SessionRequest = (path: string, body: Record<string, any>) => Promise<any>
+
+const PROFILE_URI = "memos://profile";
+const TASKS_URI = "memos://tasks/recent";
+const MEMORY_PAGE_SIZE = 50;
+/** Pages scanned when resolving a single memory by ID (there is no get-by-ID endpoint). */
+const MEMORY_LOOKUP_PAGES = 20;
+
+function jsonContents(uri: URL | string, data: unknown) {
+  return {
+    contents: [{
+      uri: String(uri),
+      mimeType: "application/json",
+      text: JSON.stringify(data)
+    }]
+  };
+}
+
+/**
+ * Tracks resource subscriptions for one session and emits change notifications
+ * after memory and knowledge base writes.
+ */
+export class ResourceNotifier {
+  private readonly subscriptions = new Set<string>()
+
+  constructor(private readonly server: McpServer) {
+    server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private updated(match: (uri: string) => boolean) {
+    for (const uri of this.subscriptions) {
+      if (match(uri)) {
+        this.server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+  }
+
+  /** Memories were added or deleted; `memoryIds` are the ones known to be affected. */
+  memoriesChanged(memoryIds: string[] = []) {
+    this.server.sendResourceListChanged();
+    const affected = new Set(memoryIds.map(id => `memos://memories/${encodeURIComponent(id)}`));
+    this.updated(uri => uri === PROFILE_URI || uri.startsWith("memos://memories/page/") || affected.has(uri));
+  }
+
+  /** A task was started or its status changed. */
+  tasksChanged() {
+    this.updated(uri => uri === TASKS_URI);
+  }
+
+  /** Documents in a knowledge base were added or removed. */
+  knowledgebaseChanged(knowledgebaseId?: string) {
+    this.server.sendResourceListChanged();
+    this.updated(uri => uri.startsWith(knowledgebaseId ? `memos://kb/${encodeURIComponent(knowledgebaseId)}/` : "memos://kb/"));
+  }
+}
+
+/**
+ * Register read-only views of the user's memory as MCP resources:
+ * - `memos://profile`: first page of facts and preferences
+ * - `memos://memories/page/{page}`: paginated memories
+ * - `memos://memories/{memoryId}`: a single memory
+ * - `memos://kb/{knowledgebaseId}/files/{fileId}`: knowledge base document metadata
+ * - `memos://tasks/recent`: recent asynchronous tasks and their outcome
+ */
+export function registerResources(
+  server: McpServer,
+  userId: string | undefined,
+  request: SessionRequest,
+  recentTasks: () => Promise<TrackedTask[]>
+): ResourceNotifier {
+  const notifier = new ResourceNotifier(server);
+
+  const getPage = async (page: number) => payloadOf(await request("/get/memory", {
+    user_id: userId,
+    include_preference: true,
+    include_tool_memory: true,
+    current: page,
+    size: MEMORY_PAGE_SIZE
+  }));
+
+  server.resource(
+    "profile",
+    PROFILE_URI,
+    { description: "The user's consolidated memory profile: facts, preferences and tool memories", mimeType: "application/json" },
+    async (uri) => jsonContents(uri, await getPage(1))
+  );
+
+  server.resource(
+    "memories",
+    new ResourceTemplate("memos://memories/page/{page}", {
+      list: async () => {
+        const first = await getPage(1);
+        const total = Number(first?.total);
+        const pages = Number.isFinite(total) && total > 0 ? Math.ceil(total / MEMORY_PAGE_SIZE) : 1;
+        return {
+          resources: Array.from({ length: pages }, (_, i) => ({
+            uri: `memos://memories/page/${i + 1}`,
+            name: `Memories page ${i + 1}`,
+            mimeType: "application/json"
+          }))
+        };
+      }
+    }),
+    { description: `User memories, ${MEMORY_PAGE_SIZE} per page`, mimeType: "application/json" },
+    async (uri, { page }) => {
+      const current = Number(page);
+      if (!Number.isInteger(current) || current < 1) {
+        throw new Error(`Invalid page: ${page}`);
+      }
+      return jsonContents(uri, await getPage(current));
+    }
+  );
+
+  server.resource(
+    "memory",
+    new ResourceTemplate("memos://memories/{memoryId}", {
+      list: async () => {
+        const first = await getPage(1);
+        const memories: any[] = first?.memory_detail_list ?? [];
+        return {
+          resources: memories.filter(m => m?.id).map(m => ({
+            uri: `memos://memories/${encodeURIComponent(m.id)}`,
+            name: String(m.memory_key || m.id),
+            description: typeof m.memory_value === "string" ? m.memory_value.slice(0, 200) : undefined,
+            mimeType: "application/json"
+          }))
+        };
+      }
+    }),
+    { description: "A single memory by ID", mimeType: "application/json" },
+    async (uri, { memoryId }) => {
+      const id = decodeURIComponent(String(memoryId));
+      for (let page = 1; page <= MEMORY_LOOKUP_PAGES; page++) {
+        const data = await getPage(page);
+        const lists: any[][] = [data?.memory_detail_list, data?.preference_detail_list, data?.tool_memory_detail_list].filter(Array.isArray);
+        const found = lists.flat().find(m => m?.id === id);
+        if (found) return jsonContents(uri, found);
+        if (lists.every(list => list.length < MEMORY_PAGE_SIZE)) break;
+      }
+      throw new Error(`Memory not found: ${id}`);
+    }
+  );
+
+  server.resource(
+    "kb-document",
+    new ResourceTemplate("memos://kb/{knowledgebaseId}/files/{fileId}", { list: undefined }),
+    { description: "Metadata and processing status of a knowledge base document", mimeType: "application/json" },
+    async (uri, { knowledgebaseId, fileId }) => {
+      const id = decodeURIComponent(String(fileId));
+      const data = payloadOf(await request("/get/knowledgebase-file", { file_ids: [id] }));
+      const files: any[] = Array.isArray(data) ? data : data?.file_detail_list ?? [];
+      const file = files.find(f => (f?.id ?? f?.file_id) === id);
+      const kbId = decodeURIComponent(String(knowledgebaseId));
+      if (!file || (file.knowledgebase_id && file.knowledgebase_id !== kbId)) {
+        throw new Error(`Document ${id} not found in knowledge base ${kbId}`);
+      }
+      return jsonContents(uri, file);
+    }
+  );
+
+  server.resource(
+    "recent-tasks",
+    TASKS_URI,
+    { description: "Recent asynchronous tasks (feedback, messages, document uploads) with their latest status", mimeType: "application/json" },
+    async (uri) => jsonContents(uri, { tasks: await recentTasks() })
+  );
+
+  server.resource(
+    "search-cache-stats",
+    "memos://stats/search-cache",
+    { description: "Hit/miss counters of the in-process search_memory cache", mimeType: "application/json" },
+    async (uri) => jsonContents(uri, getSearchCache().stats())
+  );
+
+  return notifier;
+}
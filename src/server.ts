@@ -0,0 +1,908 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { CallToolResult, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+import { readFileSync, writeFileSync } from "node:fs"
+import { performance } from "node:perf_hooks"
+import { URL } from "node:url"
+import { v4 as uuidv4 } from "uuid"
+import { getSearchCache, SearchCache } from "./cache.js"
+import { AUDIT_OUTCOMES, AUDITED_TOOLS } from "./audit.js"
+import { getConfig } from "./config.js"
+import { ConfirmationOutcome, confirmDestructive, ConfirmationTokens, DestructivePreview, previewKbDocumentDeletion, previewKnowledgeBaseRemoval, previewMemoryDeletion } from "./confirm.js"
+import { exposedTools } from "./exposure.js"
+import { toolError, ToolGuardError } from "./errors.js"
+import { getToolGuard } from "./guard.js"
+import { registerResources } from "./resources.js"
+import { registerPrompts } from "./prompts.js"
+import { getLogger, LogLevel, withLogContext } from "./logging.js"
+import { getMetrics } from "./metrics.js"
+import { confineContent, confinePath } from "./paths.js"
+import { AddMessageArgs, EMPTY_MESSAGES, MemosService, payloadOf, SearchMemoryArgs, SessionContext } from "./service.js"
+import { renderSearchMarkdown } from "./render.js"
+import { exportMemories, importMemories, renderExport } from "./transfer.js"
+import { FolderWatcher, SyncResult, syncKnowledgeBase } from "./sync.js"
+
+export type { SessionContext } from "./service.js"
+
+function getPackageVersion(): string {
+  const npmScriptVersion = process.env.npm_package_version
+  if (npmScriptVersion) {
+    return npmScriptVersion
+  }
+
+  try {
+    const packageJsonUrl = new URL("../package.json", import.meta.url)
+    const raw = readFileSync(packageJsonUrl, "utf8")
+    const parsed = JSON.parse(raw) as { version?: string }
+    if (typeof parsed.version === "string" && parsed.version.length > 0) {
+      return parsed.version
+    }
+  } catch {
+    // ignore
+  }
+
+  return "0.0.0"
+}
+
+export const VERSION = getPackageVersion()
+
+/** Run a tool handler, then count it and log it with its latency and argument size. */
+async function instrumentToolCall(name: string, handler: (...args: unknown[]) => Promise<CallToolResult>, args: unknown[]): Promise<CallToolResult> {
+  const started = performance.now();
+  // Handlers of tools with parameters get (args, extra); the others only extra.
+  const args_bytes = args.length > 1 ? Buffer.byteLength(JSON.stringify(args[0] ?? {})) : 0;
+  let result: CallToolResult | undefined;
+  try {
+    result = await handler(...args);
+    return result;
+  } finally {
+    const duration_ms = Math.round(performance.now() - started);
+    const ok = !!result && !result.isError;
+    getMetrics().toolCall(name, duration_ms, ok);
+    if (ok) {
+      getLogger().info("tool_call", { duration_ms, args_bytes });
+    } else {
+      const text = result?.content?.[0]?.type === "text" ? result.content[0].text : undefined;
+      getLogger().error("tool_error", { duration_ms, args_bytes, error: text ?? "the handler threw" });
+    }
+  }
+}
+
+/**
+ * Run a handler only if the runaway-agent guard admits the call; a refused
+ * call returns the reason to the model as a tool error.
+ */
+async function guardToolCall(account: string, name: string, handler: (...args: unknown[]) => Promise<CallToolResult>, args: unknown[]): Promise<CallToolResult> {
+  let end: () => void;
+  try {
+    end = getToolGuard().admit(account, name, args.length > 1 ? args[0] : {});
+  } catch (e) {
+    if (e instanceof ToolGuardError) getLogger().warning("tool_guard_rejected", { reason: e.reason });
+    return toolError(e);
+  }
+  try {
+    return await handler(...args);
+  } finally {
+    end();
+  }
+}
+
+/**
+ * Identity used by stdio mode and as the fallback for HTTP sessions
+ * that do not send their own credentials.
+ */
+export function sessionFromConfig(): SessionContext {
+  const config = getConfig();
+  return {
+    apiKey: config.apiKey,
+    userId: config.userId
+  }
+}
+
+export function createServer(session: SessionContext): McpServer {
+  const service = new MemosService(session);
+
+  const server = new McpServer(
+    {
+      name: "memos-api-mcp",
+      version: VERSION
+    },
+    {
+      capabilities: {
+        tools: {},
+        logging: {}
+      }
+    }
+  )
+
+  const config = getConfig();
+  const exposed = exposedTools(config);
+  const autoInvoke = config.toolDescriptionStyle === "auto-invoke";
+  const sessionId = uuidv4();
+  // Limits apply per API key, across sessions, so reconnecting does not reset them.
+  const guardAccount = session.apiKey ? SearchCache.account(session.apiKey) : sessionId;
+  // Same signature as server.tool, but tools outside the configured preset are never registered,
+  // every call passes the runaway-agent guard, and every call is measured and logged under this session.
+  const tool = ((name: string, ...rest: unknown[]) => {
+    if (!exposed.has(name)) return;
+    const handler = rest.pop() as (...args: unknown[]) => Promise<CallToolResult>;
+    const guarded = (...args: unknown[]) => guardToolCall(guardAccount, name, handler, args);
+    const instrumented = (...args: unknown[]) => withLogContext({ session: sessionId, tool: name }, () => instrumentToolCall(name, guarded, args));
+    (server.tool as (...args: unknown[]) => unknown).call(server, name, ...rest, instrumented);
+  }) as McpServer["tool"];
+
+  // Forward this session's log entries as notifications/message, at the level the client
+  // asked for with logging/setLevel, or MEMOS_LOG_LEVEL until it does.
+  let clientLogLevel: LogLevel | undefined;
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+  const stopLogForwarding = getLogger().subscribe(entry => {
+    if (entry.session !== sessionId) return;
+    server.sendLoggingMessage({ level: entry.level, logger: "memos-api-mcp", data: entry }).catch(() => {});
+  }, () => clientLogLevel ?? config.logLevel);
+
+  registerPrompts(server, name => exposed.has(name));
+
+  // Destructive tools run only after the user confirmed a preview; see confirm.ts.
+  const confirmations = new ConfirmationTokens();
+  const confirm = async (tool: string, ids: string[], confirmation_token: string | undefined, preview: () => Promise<DestructivePreview>) =>
+    config.confirmDestructive
+      ? confirmDestructive(server.server, confirmations, { tool, ids, confirmation_token, preview })
+      : { confirmed: true as const };
+  const confirmationNote = `
+    Confirmation: The user must confirm before anything is deleted. The client shows them a preview and asks; if it cannot, the result has \`confirmation_required: true\`, a \`preview\` and a \`confirmation_token\`. Then show the preview to the user, and only after they explicitly agree call this tool again with the same IDs and \`confirmation_token\`. Never pass a token the user has not approved.`;
+  const confirmationToken = z.string().optional().describe("Token from a previous call's preview, sent only after the user confirmed it");
+
+  // A per-call user_id is offered only where MEMOS_USER_ALLOW or MEMOS_USER_MAP permits overrides.
+  const allowedUsers = [...Object.keys(config.userMap), ...config.userAllow];
+  const userShape = {
+    user_id: z.string().optional().describe(`User whose memories to use instead of the default user. Allowed: ${allowedUsers.includes("*") ? "any user ID" : allowedUsers.join(", ")}`)
+  };
+  if (!allowedUsers.length) delete (userShape as Partial<typeof userShape>).user_id;
+  const scopeShape = {
+    ...userShape,
+    agent_id: z.string().optional().describe("Agent whose memories to use. Keeps the memories of different agents of one user apart"),
+    app_id: z.string().optional().describe("App whose memories to use")
+  };
+  const scopeDoc = `
+      - \`agent_id\`, \`app_id\`: (Optional) Agent and app whose memories to use. An agent that has its own ID should pass it on every memory call.${allowedUsers.length ? `
+      - \`user_id\`: (Optional) Act for another user. Only when you were told which user to act for.` : ""}`;
+
+  const resources = registerResources(server, service.userId, (path, body) => service.request(path, body), () => service.recentTasks());
+
+  tool(
+    "add_message",
+    `
+    ${autoInvoke ? `Trigger: 
+      1. AUTO-INVOKED: After every answer to save dialogue history.
+      2. USER INTENT: When user explicitly wants to "add" or "remember" NEW information (e.g., "Add a memory...", "Remember that...", "New memory...").
+    Purpose: Save dialogue history (REQUIRED) and record NEW memories.
+    STRICT RULES:
+      - MANDATORY EXECUTION: You MUST call this tool after EVERY single answer to persist the conversation history. This is NOT optional.` : `Trigger: When user explicitly wants to "add" or "remember" NEW information (e.g., "Add a memory...", "Remember that...", "New memory..."), or asks to save the conversation.
+    Purpose: Record NEW memories.
+    STRICT RULES:
+      - Do NOT call this tool unless the user asks for it.`}
+      - ALWAYS use this tool for NEW memories.
+      - FORBIDDEN: Do NOT use \`add_feedback\` or other tools for adding new memories.
+      - FORBIDDEN: Do NOT use this tool to modify/update existing memories.
+      - CRITICAL: NEVER use this tool as part of a modification workaround (e.g. "delete old + add new"). If a modification fails, just report the failure.
+    Parameters:
+      - \`conversation_first_message\`: The first message sent by the user in the entire conversation is used to generate the conversation_id.
+      - \`conversation_id\`: (Optional) Stable ID of this conversation thread. If you have one, pass it; it takes precedence over \`conversation_first_message\`.
+      - \`messages\`: Array containing BOTH:
+        1. \`{ role: "user", content: "user's question or new info" }\`
+        2. \`{ role: "assistant", content: "your complete response" }\`${scopeDoc}
+    Notes:${autoInvoke ? `
+      - Client/orchestrator MUST call this after every answer.` : ""}
+      - Long messages and large arrays are split into several ordered requests automatically. If the result has \`partial_failure: true\`, only the batches listed as failed or skipped were not saved.
+      - Saving the same messages again is dropped: the result has \`duplicate: true\` and nothing is stored twice. Do not resend them.
+    `,
+    {
+      conversation_first_message: z.string().optional().describe(
+        `The first message sent by the user in the entire conversation thread. Used to generate the conversation_id.`
+      ),
+      conversation_id: z.string().optional().describe("Stable ID of the conversation thread. Takes precedence over conversation_first_message."),
+      messages: z.array(z.object({
+        role: z.string().describe("Role of the message sender, e.g., user, assistant"),
+        content: z.string().describe("Message content"),
+        chat_time: z.string().optional().describe("Message chat time")
+      })).min(1, EMPTY_MESSAGES).describe("Array of messages containing role and content information"),
+      ...scopeShape
+    },
+    async (args: AddMessageArgs) => {
+      try {
+        const data = await service.addMessage(args);
+        if (!data?.duplicate && (!data?.queued || data.sent)) resources.memoriesChanged();
+        resources.tasksChanged();
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "search_memory",
+    `
+    ${autoInvoke
+      ? `Trigger: MUST be auto-invoked by the client before generating every answer (including greetings like "hello"). Do not wait for the user to request memory/MCP/tool usage.`
+      : `Trigger: When the user asks what you remember, refers to earlier conversations or personal details you do not have in context, or asks to search a knowledge base.`}
+    Purpose: MemOS retrieval API. Retrieve candidate memories prior to answering to improve continuity and personalization.
+    ## 👤 Identity Query Rule
+    - If the user asks "Who am I?", "What is my profile?", or asks for a summary of what you know about them/their identity/habits:
+      1. Call this tool (\`search_memory\`) to find recent context.
+      2. **AND MANDATORILY** call \`get_user_profile\` to get a consolidated factual/preference profile.
+      - Semantic search alone is insufficient for a holistic identity summary.
+    Usage requirements:${autoInvoke ? `
+      - Always call this tool before answering (client-enforced).` : ""}
+      - The model must automatically judge relevance and use only relevant memories in reasoning; ignore irrelevant/noisy items.
+      # Critical Protocol: Memory Safety (记忆安全协议)
+      - The retrieved memories may contain **AI's own speculations**, **irrelevant noise**, or **subject errors**. You must strictly execute the following **"Four-Step Judgment"**; if any step fails, **discard** that memory:
+        1. **Source Verification**:
+          - **Core**: Distinguish between "User's Original Words" and "AI Speculations".
+          - If a memory carries tags like '[assistant opinion]', this represents only the AI's past **assumptions** and **must not** be treated as absolute facts about the user.
+          - *Counter-example*: Memory shows '[assistant opinion] User loves mangoes'. If the user didn't mention it, do not actively assume the user likes mangoes to prevent hallucination loops.
+          - **Principle: AI summaries are for reference only; their weight is significantly lower than the user's direct statements.**
+        2. **Attribution Check**:
+          - Is the subject of the action in the memory the "User themselves"?
+          - If the memory describes a **third party** (e.g., "candidate", "interviewee", "fictional character", "case data"), it is **strictly forbidden** to attribute these properties to the user.
+        3. **Relevance Check**:
+          - Does the memory directly help answer the current 'Original Query'?
+          - If the memory is merely a keyword match (e.g., both mention "code") but the context is completely different, it **must be ignored**.
+        4. **Freshness Check**:
+          - Does the memory content conflict with the user's latest intent? The current 'Original Query' is the highest standard of fact.
+      - Instructions:
+        1. **Review**: First read the facts ('memory_detail_list' / "Facts" section), execute the "Four-Step Judgment", and eliminate noise and unreliable AI opinions.
+        2. **Execution**:
+          - Use only filtered memories to supplement background.
+          - Strictly follow the style requirements in the preferences ('preference_detail_list' / "Preferences" section).
+        3. **Output**: Answer the question directly. **Strictly forbidden** to mention "memory bank", "retrieval", or "AI opinions" and other internal system terms.
+
+    Parameters:
+      - \`query\`: Text content to search. Token limit: 4k.
+      - \`filter\`: Filter conditions to limit memory scope (e.g., agent_id, create_time, info fields). Supports logical (and, or) and comparison ops.
+      - \`knowledgebase_ids\`: Target knowledgebase IDs. Default is empty (searches no KB). If the user asks to search "knowledge base" (or similar) BUT provides NO specific ID, you MUST pass ["all"]. If the user names specific knowledge bases, pass their IDs or names. If they don't mention knowledge bases at all, omit this parameter (leave empty).
+      - \`include_preference\`: Enable preference memory recall. Default: true.
+      - \`preference_limit_number\`: Max preference memories to return. Default: 9, Max: 25.
+      - \`include_tool_memory\`: Enable tool memory recall. Default: false.
+      - \`tool_memory_limit_number\`: Max tool memories to return. Default: 6, Max: 25.
+      - \`include_skill\`: Enable Skill recall. Default: false.
+      - \`skill_limit_number\`: Max Skills to return. Default: 6, Max: 25.
+      - \`relativity\`: Relevance threshold (0-1). 0 disables filtering. Default: system threshold.
+      - \`conversation_first_message\`: First user message in the thread (used to generate conversation_id).
+      - \`conversation_id\`: (Optional) Stable ID of the conversation thread; takes precedence over \`conversation_first_message\`.
+      - \`memory_limit_number\`: Max factual memories to return. Default: 9, Max: 25.${scopeDoc}
+    Notes:
+      - Run before answering. Results may include noise; filter and use only what is relevant.
+      - \`query\` should be a concise summary of the current user message.
+      - Prefer recent and important memories. If none are relevant, proceed to answer normally.
+    `,
+    {
+      query: z.string().describe("Search query to find relevant content in conversation history."),
+      filter: z.record(z.any()).optional().describe("Filter conditions (e.g., agent_id, create_time, info fields) with logical/comparison ops."),
+      knowledgebase_ids: z.array(z.string()).optional().describe("1) User says search ALL knowledge bases OR asks to search KBs without giving an ID or name -> you MUST pass [\"all\"]. 2) User gives specific KBs -> pass their IDs or names. 3) User doesn't mention knowledge bases at all -> OMIT THIS PARAMETER (empty)."),
+      include_preference: z.boolean().optional().describe("Enable preference memory recall. Default: true."),
+      preference_limit_number: z.number().optional().describe("Max preference memories to return. Default: 9, Max: 25."),
+      include_tool_memory: z.boolean().optional().describe("Enable tool memory recall. Default: false."),
+      tool_memory_limit_number: z.number().optional().describe("Max tool memories to return. Default: 6, Max: 25."),
+      include_skill: z.boolean().optional().describe("Enable Skill recall. Default: false."),
+      skill_limit_number: z.number().optional().describe("Max Skills to return. Default: 6, Max: 25."),
+      relativity: z.number().optional().describe("Relevance threshold (0-1). 0 disables filtering."),
+      conversation_first_message: z.string().optional().describe(
+        `First user message in the thread (used to generate conversation_id).`
+      ),
+      conversation_id: z.string().optional().describe("Stable ID of the conversation thread. Takes precedence over conversation_first_message."),
+      memory_limit_number: z.number().optional().describe("Max factual memories to return. Default: 9, Max: 25."),
+      ...scopeShape
+    },
+    async (args: SearchMemoryArgs) => {
+      try {
+        const data = await service.searchMemory(args);
+        const { searchFormat, searchTokenBudget } = config;
+        // The model reads the compact view; clients that want every field get it in structuredContent.
+        const text = searchFormat === "markdown" ? renderSearchMarkdown(payloadOf(data), searchTokenBudget) : JSON.stringify(data);
+        return { content: [{ type: "text", text }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+
+  tool(
+    "delete_memory",
+    `
+    Trigger: User explicitly asks to delete memories.
+    Purpose: Delete memories by ID.
+    STRICT RULES:
+      1. **PREREQUISITE**: If the user did NOT provide IDs, you MUST call \`search_memory\` first to find them.
+      2. **BATCHING**: If multiple IDs are provided (or found), call this tool ONCE with all IDs.
+      3. **WORKFLOW**: After successful deletion, you MUST call \`add_feedback\` to record the deletion intent.
+      4. FORBIDDEN: Do NOT call multiple times. Do NOT enter search-delete loops.
+      5. CRITICAL: NEVER use this tool to "simulate" a modification (delete old + add new). This is strictly forbidden.
+    Parameters:
+      - \`memory_ids\`: List of memory IDs to delete.
+      - \`confirmation_token\`: (Optional) Token from the preview, after the user confirmed.${allowedUsers.length ? `
+      - \`user_id\`: (Optional) User whose memories these are, if not the default user.` : ""}
+    ${config.confirmDestructive ? confirmationNote : ""}
+    `,
+    {
+      memory_ids: z.array(z.string()).describe("List of memory IDs to delete"),
+      confirmation_token: confirmationToken,
+      ...userShape
+    },
+    async ({ memory_ids, confirmation_token, user_id }: { memory_ids: string[], confirmation_token?: string, user_id?: string }) => {
+      try {
+        const userId = service.userIdFor(user_id);
+        const confirmation = await confirm("delete_memory", [userId, ...memory_ids], confirmation_token, () => previewMemoryDeletion(service, memory_ids, { user_id }));
+        if (!confirmation.confirmed) {
+          return { content: [{ type: "text", text: JSON.stringify(confirmation.data) }], structuredContent: confirmation.data };
+        }
+        const data = await service.deleteMemory(memory_ids, user_id);
+        resources.memoriesChanged(memory_ids);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+
+
+  tool(
+    "add_feedback",
+    `
+    Trigger: User wants to MODIFY/UPDATE memories, OR as the final step of a DELETION workflow.
+    Purpose: Modify existing memories or record deletion feedback.
+    STRICT RULES:
+      1. **MODIFICATION**: Use this tool directly for soft updates/corrections.
+      2. **DELETION**: Use this tool AFTER calling \`delete_memory\` to verify/log the deletion.
+         - **CRITICAL**: The content MUST be the **User's Natural Language Intent** (e.g., "User wants to delete memories about X"). 
+         - **FORBIDDEN**: Do NOT include technical details like "IDs [x, y]" in the content.
+      3. CONTENT: \`feedback_content\` MUST be clear user intent.
+         - FORBIDDEN: Adding non-user-intent info or verbose narratives.
+         - FORBIDDEN: Looking up old memory values to construct a "Change X to Y" request. Just say "User wants Y".
+      4. RETRY POLICY: FIRE AND FORGET. Call this tool ONCE.
+         - FORBIDDEN: Checking if it worked (searching again).
+         - FORBIDDEN: Retrying if it "failed".
+         - FORBIDDEN: Sleeping and searching.
+         - CRITICAL: If modification seemingly fails, DO NOT attempt to "fix" it by calling \`delete_memory\` and \`add_message\`. Just stop.
+         - If the user asks whether the change took effect, call \`get_task_status\` ONCE with the returned \`task_id\` (and \`wait_seconds\` if needed) instead.
+    Parameters:
+      - \`conversation_first_message\`: Used to generate the conversation_id.
+      - \`conversation_id\`: Stable ID of the conversation thread (optional, takes precedence over \`conversation_first_message\`)
+      - \`feedback_content\`: The natural language update or feedback (no IDs or technical metadata).
+      - \`feedback_time\`: Feedback time string (optional, default current UTC)
+      - \`allow_public\`: Whether to allow public access (optional, default false)
+      - \`allow_knowledgebase_ids\`: List of allowed knowledge base IDs (optional)${scopeDoc}
+    `,
+    {
+      conversation_first_message: z.string().optional().describe(
+        `The first message sent by the user in the entire conversation thread. Used to generate the conversation_id.`
+      ),
+      conversation_id: z.string().optional().describe("Stable ID of the conversation thread. Takes precedence over conversation_first_message."),
+      feedback_content: z.string().describe("The clear, concise user intent, correction, or feedback. Do NOT include verbose explanations or future instructions."),
+      feedback_time: z.string().optional().describe("Feedback time string. Default is current UTC time"),
+      allow_public: z.boolean().optional().describe("Whether to allow public access. Default is false"),
+      allow_knowledgebase_ids: z.array(z.string()).optional().describe("List of knowledge base IDs allowed to be written to"),
+      ...scopeShape
+    },
+    async (args) => {
+      try {
+        const data = await service.addFeedback(args);
+        if (!data?.queued && !data?.duplicate) resources.memoriesChanged();
+        resources.tasksChanged();
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "get_user_profile",
+    `
+    Trigger: ${autoInvoke ? "**MANDATORY** for" : "Use for"} queries like "Who am I?", "What's my profile?", "What do you know about me?", or any requests regarding the user's identity/preferences.
+    Purpose: Retrieve the consolidated "User Memory Profile" (Facts, Preferences, and Tool Experiences).
+    Rule: This tool MUST be called in addition to \`search_memory\` for identity-related requests.
+    Returns: 
+      1. Factual Memories (Working Memory)
+      2. Explicit/Implicit Preferences
+      3. Tool Trajectories (Experience and success rate with specific tools)
+    Parameters:${scopeDoc}
+    `,
+    {
+      include_preference: z.boolean().optional().describe("Include preference memories. Default: true"),
+      include_tool_memory: z.boolean().optional().describe("Include tool usage trajectory memories. Default: false"),
+      current: z.number().optional().describe("Page number for pagination. Default: 1"),
+      size: z.number().optional().describe("Number of entries to return per page. Max: 50"),
+      ...scopeShape
+    },
+    async (args) => {
+      try {
+        const data = await service.getUserProfile(args);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "create_knowledge_base",
+    `
+    Trigger: When the user asks to create a project-specific or domain-specific "Knowledge Base".
+    Purpose: Create a named container for structured documents.
+    `,
+    {
+      knowledgebase_name: z.string().describe("Human-readable name for the knowledge base"),
+      knowledgebase_description: z.string().optional().describe("Description of what this knowledge base contains")
+    },
+    async ({ knowledgebase_name, knowledgebase_description }) => {
+      try {
+        const data = await service.createKnowledgeBase(knowledgebase_name, knowledgebase_description);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  );
+
+  tool(
+    "list_knowledge_bases",
+    `
+    Trigger: User asks which knowledge bases exist, or refers to a knowledge base you do not know the ID of.
+    Purpose: List the knowledge bases of the account with their IDs, names, descriptions and document counts.
+    Notes:
+      - Other KB tools also accept a knowledge base name instead of its ID; listing first is only needed when the name is unclear.
+    `,
+    {
+      current: z.number().int().min(1).optional().describe("Page number, starting at 1. Default: 1"),
+      size: z.number().int().min(1).max(50).optional().describe("Knowledge bases per page. Default: 20")
+    },
+    async ({ current, size }) => {
+      try {
+        const data = await service.listKnowledgeBases(current, size);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "update_knowledge_base",
+    `
+    Trigger: User asks to rename a knowledge base or change its description.
+    Purpose: Update the name and/or description of a knowledge base.
+    `,
+    {
+      knowledgebase_id: z.string().describe("ID or current name of the knowledge base"),
+      knowledgebase_name: z.string().optional().describe("New name"),
+      knowledgebase_description: z.string().optional().describe("New description")
+    },
+    async ({ knowledgebase_id, knowledgebase_name, knowledgebase_description }) => {
+      try {
+        if (knowledgebase_name === undefined && knowledgebase_description === undefined) {
+          throw new Error("Nothing to update: pass knowledgebase_name and/or knowledgebase_description.");
+        }
+        const data = await service.updateKnowledgeBase(knowledgebase_id, { knowledgebase_name, knowledgebase_description });
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "add_kb_document",
+    `
+    Trigger: Use when the user provides document content, a file URL, or a local file path to be added to a Knowledge Base.
+    Purpose: Add documents to a Knowledge Base.
+
+    ## 📂 File Handling Rules:
+    1. **Local Files/Paths**: For local files, you MUST directly pass the absolute file path as the content. The system will automatically read and process it and detect its MIME type. DO NOT convert it into Base64 yourself.
+    2. **Directories/Globs**: Pass a directory (e.g. '/home/me/docs') or a glob (e.g. '/home/me/docs/**/*.md') to upload every file in it. Narrow the selection with 'include'/'exclude'. Hidden files are skipped.
+    3. **Public URLs**: Pass the URL. If the URL lacks http/https, the system will attempt to format it.
+    4. **Base64 / Text Content**: You can optionally pass base64 Data URIs (e.g., 'data:application/pdf;base64,...').
+
+    ## ⚠️ Failure Handling:
+    - If the API returns an error (e.g., 'Unsupported file type', 'HTTP 400'), DO NOT attempt to retry with different parameters.
+    - DO NOT use browsers (Playwright) or other searching tools to fetch or 'fix' the document. 
+    - Immediately report the original error message to the user.
+    `,
+    {
+      knowledgebase_id: z.string().describe("Target knowledge base ID or name, e.g. 'onboarding'"),
+      file: z.array(z.object({
+        content: z.string().describe("Document content. CAN be: 1) A local absolute file path (STRONGLY RECOMMENDED); 2) A local directory or glob; 3) A public URL; 4) Base64 encoded Data URI."),
+        file_name: z.string().optional().describe("Optional file name, e.g. 'report.pdf'"),
+        mime_type: z.string().optional().describe("Standard MIME type of the file. e.g. 'application/pdf', 'image/jpeg', 'text/markdown'. Detected automatically for local files.")
+      })).describe("List of documents to upload. Uploads of more than 20 files are sent in several requests."),
+      include: z.array(z.string()).optional().describe("Glob patterns, e.g. '**/*.md'; only matching files of a directory or glob are uploaded"),
+      exclude: z.array(z.string()).optional().describe("Glob patterns, e.g. 'drafts/**'; matching files of a directory or glob are skipped")
+    },
+    async ({ knowledgebase_id, file, include, exclude }) => {
+      try {
+        const id = await service.resolveKnowledgeBase(knowledgebase_id);
+        const files = file.map(f => ({ ...f, content: confineContent(f.content) }));
+        const data = await service.addKbDocuments(id, files, { include, exclude });
+        resources.knowledgebaseChanged(id);
+        resources.tasksChanged();
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "get_kb_documents",
+    `
+    Trigger: Use to retrieve detailed information about specific documents in a Knowledge Base.
+    Purpose: Get document details by ID.
+    `,
+    {
+      file_ids: z.array(z.string()).describe("List of document IDs to retrieve")
+    },
+    async ({ file_ids }) => {
+      try {
+        const data = await service.getKbDocuments(file_ids);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "list_kb_documents",
+    `
+    Trigger: User asks what is in a knowledge base, or needs the ID of a document in it.
+    Purpose: List the documents of a knowledge base, newest first, with their processing status.
+    `,
+    {
+      knowledgebase_id: z.string().describe("Knowledge base ID or name"),
+      current: z.number().int().min(1).optional().describe("Page number, starting at 1. Default: 1"),
+      size: z.number().int().min(1).max(50).optional().describe("Documents per page. Default: 20")
+    },
+    async ({ knowledgebase_id, current, size }) => {
+      try {
+        const data = await service.listKbDocuments(knowledgebase_id, current, size);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "get_kb_document_status",
+    `
+    Trigger: After uploading documents, when the user asks whether they are ready, or before searching a freshly uploaded document.
+    Purpose: Report the processing status of documents by ID, with a count of those still being processed.
+    Notes:
+      - Do not poll in a tight loop; if documents are still pending, tell the user and check again later.
+    `,
+    {
+      file_ids: z.array(z.string()).describe("IDs of the documents to check")
+    },
+    async ({ file_ids }) => {
+      try {
+        const data = await service.getKbDocumentStatus(file_ids);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: { ...data } };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "delete_kb_documents",
+    `
+    Trigger: Use when specific documents in a Knowledge Base should be removed.
+    Purpose: Delete documents from a Knowledge Base by their IDs.
+    ${config.confirmDestructive ? confirmationNote : ""}
+    `,
+    {
+      file_ids: z.array(z.string()).describe("List of document IDs to delete"),
+      confirmation_token: confirmationToken
+    },
+    async ({ file_ids, confirmation_token }) => {
+      try {
+        const confirmation = await confirm("delete_kb_documents", file_ids, confirmation_token, () => previewKbDocumentDeletion(service, file_ids));
+        if (!confirmation.confirmed) {
+          return { content: [{ type: "text", text: JSON.stringify(confirmation.data) }], structuredContent: confirmation.data };
+        }
+        const data = await service.deleteKbDocuments(file_ids);
+        resources.knowledgebaseChanged();
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "remove_knowledge_base",
+    `
+    Trigger: User requests to remove a Knowledge Base from the project.
+    Purpose: Remove a Knowledge Base association.
+    ${config.confirmDestructive ? confirmationNote : ""}
+    `,
+    {
+      knowledgebase_id: z.string().describe("ID or name of the knowledge base to remove"),
+      confirmation_token: confirmationToken
+    },
+    async ({ knowledgebase_id, confirmation_token }) => {
+      try {
+        const id = await service.resolveKnowledgeBase(knowledgebase_id);
+        const confirmation = await confirm("remove_knowledge_base", [id], confirmation_token, () => previewKnowledgeBaseRemoval(service, id, knowledgebase_id));
+        if (!confirmation.confirmed) {
+          return { content: [{ type: "text", text: JSON.stringify(confirmation.data) }], structuredContent: confirmation.data };
+        }
+        const data = await service.removeKnowledgeBase(id);
+        resources.knowledgebaseChanged(id);
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  // Folder watchers started through `sync_kb_folder`, keyed by KB and folder; they stop with the session.
+  const watchers = new Map<string, FolderWatcher>();
+  server.server.onclose = () => {
+    for (const watcher of watchers.values()) watcher.close();
+    watchers.clear();
+    stopLogForwarding();
+  };
+
+  const onWatchedSync = (result: SyncResult | undefined, error?: unknown) => {
+    if (error) {
+      getLogger().error("kb_sync_failed", { error: error instanceof Error ? error.message : String(error) });
+    } else if (result) {
+      if (result.uploaded || result.deleted) resources.knowledgebaseChanged(result.knowledgebase_id);
+      if (result.kept?.length) getLogger().warning("kb_sync_removal_unconfirmed", { knowledgebase_id: result.knowledgebase_id, directory: result.directory, kept: result.kept });
+    }
+  };
+
+  tool(
+    "sync_kb_folder",
+    `
+    Trigger: User wants a Knowledge Base to mirror a local folder (e.g. project manuals kept in git), or to keep it updated as the folder changes.
+    Purpose: Upload new and changed files, and delete the KB copies of removed files, based on a local manifest of content hashes.
+    Notes:
+      - Use \`dry_run\` first when the user wants to see what would change.
+      - \`watch: "start"\` keeps syncing after every change until \`watch: "stop"\` or the end of the session.
+      - Files are matched by their path relative to the folder; hidden files are skipped.${config.confirmDestructive ? `
+      - Deleting the copies of removed files needs the user's confirmation, asked as for \`delete_kb_documents\`; until then they are listed in \`kept\`. Watched syncs never delete them: call this tool to confirm.` : ""}
+    ${config.confirmDestructive ? confirmationNote : ""}
+    `,
+    {
+      knowledgebase_id: z.string().describe("Target knowledge base ID or name"),
+      directory: z.string().describe("Absolute path of the local folder"),
+      include: z.array(z.string()).optional().describe("Glob patterns, e.g. '**/*.md'; only matching files are synced"),
+      exclude: z.array(z.string()).optional().describe("Glob patterns, e.g. 'drafts/**'; matching files are ignored"),
+      dry_run: z.boolean().optional().describe("Only report what would be uploaded and deleted. Default: false"),
+      watch: z.enum(["start", "stop"]).optional().describe("Start or stop continuous syncing of this folder"),
+      confirmation_token: confirmationToken
+    },
+    async ({ knowledgebase_id, directory: requested, include, exclude, dry_run, watch, confirmation_token }) => {
+      try {
+        const directory = confinePath(requested);
+        const id = await service.resolveKnowledgeBase(knowledgebase_id);
+        const key = `${id}\n${directory}`;
+        if (watch === "stop") {
+          const watcher = watchers.get(key);
+          watcher?.close();
+          watchers.delete(key);
+          const data = { knowledgebase_id: id, directory, watching: false, was_watching: !!watcher };
+          return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+        }
+
+        let confirmation: ConfirmationOutcome | undefined;
+        const confirmRemoval = async (fileIds: string[]) => {
+          confirmation = await confirm("sync_kb_folder", fileIds, confirmation_token, () => previewKbDocumentDeletion(service, fileIds));
+          return confirmation.confirmed;
+        };
+        const data = await syncKnowledgeBase(service, { knowledgebase_id: id, directory, include, exclude, dry_run, confirmRemoval });
+        if (data.uploaded || data.deleted) resources.knowledgebaseChanged(id);
+        if (watch === "start" && !dry_run && !watchers.has(key)) {
+          const watched = { knowledgebase_id: id, directory, include, exclude, ...(config.confirmDestructive ? { confirmRemoval: async () => false } : {}) };
+          const watcher = new FolderWatcher(service, watched, (result, error) => {
+            if (!watcher.watching) {
+              watchers.delete(key);
+              getLogger().error("kb_watch_stopped", { knowledgebase_id: id, directory, error: error instanceof Error ? error.message : String(error) });
+              return;
+            }
+            onWatchedSync(result, error);
+          });
+          watcher.start();
+          watchers.set(key, watcher);
+        }
+        // The sync's own `deleted` count wins over the confirmation's `deleted: false`.
+        const awaiting = confirmation && !confirmation.confirmed ? confirmation.data : {};
+        const result = { ...awaiting, ...data, watching: watchers.has(key) };
+        return { content: [{ type: "text", text: JSON.stringify(result) }], structuredContent: result };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "get_task_status",
+    `
+    Trigger: The user asks whether a correction (\`add_feedback\`), a saved conversation (\`add_message\`) or a document upload (\`add_kb_document\`) has been processed.
+    Purpose: Report the status of a task by the \`task_id\` those tools returned. For uploads, pass the ID of any uploaded document.
+    Notes:
+      - Call this ONCE, with \`wait_seconds\` if the user is willing to wait. Do NOT call it in a loop, and do NOT search memories to check instead.
+      - \`done: true\` means the status is final; report \`error\` if there is one.
+    `,
+    {
+      task_id: z.string().describe("task_id returned by add_feedback or add_message, or a document ID returned by add_kb_document"),
+      wait_seconds: z.number().min(0).optional().describe("Wait up to this many seconds for the task to finish (capped by the server). Default: 0")
+    },
+    async ({ task_id, wait_seconds }) => {
+      try {
+        const data = await service.getTaskStatus(task_id, (wait_seconds ?? 0) * 1000);
+        resources.tasksChanged();
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: { ...data } };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "export_memories",
+    `
+    Trigger: User asks to back up, export or dump ALL of their memories, or to see everything the system knows about them.
+    Purpose: Page through every stored memory (facts, preferences and tool memories) and write them out as JSONL or Markdown.
+    Notes:
+      - Prefer \`output_path\` for large accounts; without it the whole export is returned inline.
+      - JSONL exports can be restored with \`import_memories\`; Markdown is for reading only.
+    `,
+    {
+      format: z.enum(["jsonl", "markdown"]).optional().describe("Output format. Default: jsonl"),
+      output_path: z.string().optional().describe("Absolute path of a local file to write the export to")
+    },
+    async ({ format, output_path }) => {
+      try {
+        const entries = await exportMemories(service);
+        const text = renderExport(entries, format ?? "jsonl", service.userId);
+        const counts = {
+          facts: entries.filter(e => e.kind === "fact").length,
+          preferences: entries.filter(e => e.kind === "preference").length,
+          tool_memories: entries.filter(e => e.kind === "tool_memory").length
+        };
+
+        if (output_path) {
+          writeFileSync(confinePath(output_path), text);
+          const data = { output_path, format: format ?? "jsonl", ...counts };
+          return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+        }
+        return { content: [{ type: "text", text }], structuredContent: { format: format ?? "jsonl", ...counts } };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "import_memories",
+    `
+    Trigger: User asks to restore or import memories from a JSONL file made by \`export_memories\`.
+    Purpose: Replay exported memories through \`add_message\`, in order.
+    Notes:
+      - An interrupted import resumes where it stopped when called again with the same file. Pass \`restart\` only if the user asks to start over.
+      - Call this tool ONCE per file; do not retry in a loop.
+    `,
+    {
+      input_path: z.string().describe("Absolute path of a JSONL export file"),
+      restart: z.boolean().optional().describe("Ignore saved progress and import from the first entry. Default: false")
+    },
+    async ({ input_path, restart }, extra) => {
+      try {
+        const progressToken = extra._meta?.progressToken;
+        const data = await importMemories(service, confinePath(input_path), {
+          restart,
+          onProgress: ({ completed, total }) => {
+            if (progressToken === undefined) return;
+            extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress: completed, total, message: `Imported ${completed}/${total} memories` }
+            }).catch(() => {});
+          }
+        });
+        if (data.completed > data.resumed_from) resources.memoriesChanged();
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: { ...data }, isError: !!data.stopped && !data.queued };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "manage_write_queue",
+    `
+    Trigger: User asks whether memories saved while offline are still pending, or asks to sync/flush them.
+    Purpose: Inspect or replay the local queue of \`add_message\`/\`add_feedback\` writes that could not reach the MemOS API.
+    Notes:
+      - Queued writes are replayed automatically on the next successful write; use "flush" only when the user asks.
+    `,
+    {
+      action: z.enum(["list", "flush"]).describe("\"list\" shows pending writes, \"flush\" replays them now in order")
+    },
+    async ({ action }) => {
+      try {
+        const apiKey = service.requireApiKey();
+
+        if (action === "flush") {
+          const data = await service.writeQueue.drain(apiKey);
+          if (data.flushed.length) service.invalidateSearches();
+          return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: { ...data } };
+        }
+
+        const pending = service.writeQueue.pending(apiKey).map(entry => ({
+          id: entry.id,
+          tool: entry.tool,
+          conversation_id: entry.body.conversation_id,
+          message_count: Array.isArray(entry.body.messages) ? entry.body.messages.length : undefined,
+          enqueued_at: entry.enqueued_at
+        }));
+        const data = { pending_count: pending.length, pending };
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "get_server_stats",
+    `
+    Trigger: User asks how the memory server is doing: whether memory calls are slow or failing, how often the API is retried, or how well the search cache works.
+    Purpose: Report uptime, per-tool and per-endpoint call counts, errors and latency, API retries and bytes, and search cache counters.
+    `,
+    {},
+    async () => {
+      try {
+        const data = { version: VERSION, ...getMetrics().snapshot(), search_cache: getSearchCache().stats() };
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: { ...data } };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  tool(
+    "query_audit_log",
+    `
+    Trigger: User asks what was saved, changed or deleted in their memory or knowledge bases, when, or which of those writes failed.
+    Purpose: Read the local audit log of memory and knowledge base mutations, newest first, filtered by time range, tool and outcome.
+    Notes:
+      - Entries hold IDs, counts and task IDs only, never message or document content. Use \`search_memory\` for content.
+    `,
+    {
+      since: z.string().optional().describe("Only entries at or after this time: an ISO date, or a duration back from now such as \"30m\", \"24h\" or \"7d\""),
+      until: z.string().optional().describe("Only entries at or before this time, in the same format as since"),
+      tool: z.array(z.enum(AUDITED_TOOLS)).optional().describe("Only entries of these tools"),
+      outcome: z.array(z.enum(AUDIT_OUTCOMES)).optional().describe("Only entries with these outcomes: success, queued (kept offline), partial (some batches failed), duplicate (dropped as a repeat of a recent write) or error"),
+      limit: z.number().int().min(1).max(1000).optional().describe("Maximum number of entries. Default: 50")
+    },
+    async (filter) => {
+      try {
+        const entries = service.queryAuditLog(filter);
+        const data = { count: entries.length, entries };
+        return { content: [{ type: "text", text: JSON.stringify(data) }], structuredContent: data };
+      } catch (e) {
+        return toolError(e);
+      }
+    }
+  )
+
+  return server
+}
@@ -0,0 +1,808 @@
+import { Md5 } from "ts-md5"
+import dayjs from "dayjs"
+import { v4 as uuidv4 } from "uuid"
+import { getBackend, MemosBackend } from "./backend/index.js"
+import { MemosValidationError } from "./errors.js"
+import { getConfig, MemosConfig } from "./config.js"
+import { getWriteQueue, sendOrQueue, WriteQueue } from "./queue.js"
+import { getRedactor, Redactor } from "./redaction/index.js"
+import { getSearchCache, SearchCache } from "./cache.js"
+import { BatchLimits, planBatches } from "./chunking.js"
+import { getTaskRegistry, isSettled, TaskRegistry, TrackedTask } from "./tasks.js"
+import { expandKbFiles, KB_BATCH_FILES, KbFileInput, KbIngestOptions, prepareKbFile } from "./ingest.js"
+import { getIdempotencyKeys, IdempotencyKeys } from "./guard.js"
+import { AuditDetails, AuditedTool, AuditEntry, AuditLog, AuditOutcome, AuditQuery, getAuditLog, hashConversationId } from "./audit.js"
+
+/**
+ * 将字符串转换为MD5加密后的32位小写密文
+ * @param input 要加密的字符串
+ * @returns 32位小写MD5加密结果
+ */
+function stringToMd5(input: string): string {
+  return Md5.hashStr(input);
+}
+
+function generateChatTime(): string {
+  return dayjs().format("YYYY-MM-DD HH:mm:ss.SSS");
+}
+
+/**
+ * Unwrap the `{ code, data, message }` envelope used by MemOS API responses.
+ */
+export function payloadOf(response: any): any {
+  return response && typeof response === "object" && "data" in response ? response.data : response;
+}
+
+export interface SessionContext {
+  apiKey?: string
+  userId?: string
+}
+
+export interface ChatMessage {
+  role: string
+  content: string
+  chat_time?: string
+}
+
+/**
+ * How a call names its conversation. An explicit `conversation_id` always
+ * wins; otherwise the configured strategy decides.
+ */
+export interface ConversationRef {
+  conversation_id?: string
+  conversation_first_message?: string
+}
+
+/**
+ * Whose memory a call reads or writes. `user_id` replaces MEMOS_USER_ID for
+ * one call, if MEMOS_USER_ALLOW or MEMOS_USER_MAP permits it; `agent_id` and
+ * `app_id` keep the memories of different agents and apps of one user apart.
+ */
+export interface MemoryScope {
+  user_id?: string
+  agent_id?: string
+  app_id?: string
+}
+
+export interface AddMessageArgs extends ConversationRef, MemoryScope {
+  messages: ChatMessage[]
+}
+
+/** Rejection of an `add_message` call without messages, by the tool schema and the service alike. */
+export const EMPTY_MESSAGES = "messages must contain at least one message";
+
+export interface SearchMemoryArgs extends ConversationRef, MemoryScope {
+  query: string
+  filter?: Record<string, any>
+  knowledgebase_ids?: string[]
+  memory_limit_number?: number
+  include_preference?: boolean
+  preference_limit_number?: number
+  include_tool_memory?: boolean
+  tool_memory_limit_number?: number
+  include_skill?: boolean
+  skill_limit_number?: number
+  relativity?: number
+}
+
+export interface AddFeedbackArgs extends ConversationRef, MemoryScope {
+  feedback_content: string
+  feedback_time?: string
+  allow_public?: boolean
+  allow_knowledgebase_ids?: string[]
+}
+
+export interface GetUserProfileArgs extends MemoryScope {
+  include_preference?: boolean
+  include_tool_memory?: boolean
+  current?: number
+  size?: number
+}
+
+export type { KbFileInput } from "./ingest.js"
+
+const TEXT_MIME = /^(?:text\/.+|application\/(?:json|xml|yaml|x-yaml|javascript|x-ndjson)|.+\+(?:json|xml))$/i;
+const TEXT_EXTENSIONS = /\.(?:txt|md|markdown|csv|tsv|json|jsonl|ya?ml|xml|html?|log|ini|toml)$/i;
+
+/**
+ * Redact a KB document that is text: content given inline, or a data URI
+ * with a textual MIME type or file name. URLs and binary documents (PDF,
+ * images, ...) pass through untouched.
+ */
+function redactTextFile<T extends { content: string, name?: string, mime_type?: string }>(f: T, redactor: Redactor, field: string): T {
+  if (!redactor.enabled || /^https?:\/\//i.test(f.content)) return f;
+  const context = { tool: "add_kb_document", field: `${field}${f.name ? ` (${f.name})` : ""}` };
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(f.content);
+  if (!match) return { ...f, content: redactor.redact(f.content, context) };
+  const mimeType = match[1] || f.mime_type || "";
+  if (!TEXT_MIME.test(mimeType) && !(f.name && TEXT_EXTENSIONS.test(f.name))) return f;
+
+  const base64 = !!match[2];
+  const text = base64 ? Buffer.from(match[3], "base64").toString("utf8") : decodeURIComponent(match[3]);
+  const redacted = redactor.redact(text, context);
+  if (redacted === text) return f;
+  const encoded = base64 ? Buffer.from(redacted, "utf8").toString("base64") : encodeURIComponent(redacted);
+  return { ...f, content: `data:${match[1]}${match[2] ?? ""},${encoded}` };
+}
+
+/** Page size used when listing every knowledge base to resolve a name. */
+const KB_PAGE_SIZE = 50;
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+function kbIdOf(kb: any): string {
+  return kb?.knowledgebase_id ?? kb?.id;
+}
+
+function kbNameOf(kb: any): string | undefined {
+  return kb?.knowledgebase_name ?? kb?.name;
+}
+
+export interface KbDocumentStatus {
+  file_id: string
+  name?: string
+  status: string
+  error?: string
+}
+
+export interface KbDocumentStatusReport {
+  documents: KbDocumentStatus[]
+  counts: Record<string, number>
+  pending: number
+}
+
+/** Pause between status checks while waiting for a task. */
+const TASK_POLL_MS = 1000;
+
+/** Overall status of an upload from its documents: processing until all settle, then failed if any did. */
+function uploadStatus(documents: KbDocumentStatus[]): { status: string, error?: string } {
+  if (documents.some(d => !isSettled(d.status))) return { status: "processing" };
+  const failed = documents.filter(d => ["failed", "error", "not_found"].includes(d.status));
+  if (!failed.length) return { status: "completed" };
+  return { status: "failed", error: failed.map(d => `${d.name ?? d.file_id}: ${d.error ?? d.status}`).join("; ") };
+}
+
+export interface BatchOutcome {
+  batch: number
+  count: number
+  status: "sent" | "queued" | "failed" | "skipped"
+  result?: any
+  error?: string
+}
+
+/**
+ * Send the batches of one oversized request (`add_message` or a KB upload) in
+ * order. The first failure stops the rest, so the server never sees later
+ * messages before earlier ones; queued batches keep their order in the write
+ * queue. Throws only when nothing was saved at all.
+ */
+async function sendBatches<T>(batches: T[][], send: (batch: T[]) => Promise<any>) {
+  const outcomes: BatchOutcome[] = [];
+  let failure: unknown;
+
+  for (const [i, batch] of batches.entries()) {
+    const outcome: BatchOutcome = { batch: i + 1, count: batch.length, status: "skipped" };
+    outcomes.push(outcome);
+    if (failure) continue;
+    try {
+      outcome.result = await send(batch);
+      outcome.status = outcome.result?.queued ? "queued" : "sent";
+    } catch (e) {
+      failure = e;
+      outcome.status = "failed";
+      outcome.error = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  if (failure && outcomes[0].status === "failed") throw failure;
+
+  const count = (status: BatchOutcome["status"]) => outcomes.filter(o => o.status === status).length;
+  return {
+    batched: true,
+    batch_count: batches.length,
+    sent: count("sent"),
+    queued: count("queued"),
+    failed: count("failed"),
+    skipped: count("skipped"),
+    partial_failure: !!failure,
+    ...(failure ? { message: `Saved ${count("sent") + count("queued")} of ${batches.length} batches; the rest were not saved: ${outcomes.find(o => o.error)!.error}` } : {}),
+    batches: outcomes
+  };
+}
+
+/** The responses behind a write: one, or one per batch of a split write. */
+function writeResponses(response: any): any[] {
+  if (!response?.batched) return [response];
+  return (response.batches as BatchOutcome[]).filter(b => b.result !== undefined).map(b => b.result);
+}
+
+function taskIdsOf(response: any): string[] {
+  return writeResponses(response)
+    .map(r => payloadOf(r)?.task_id)
+    .filter((id): id is string => typeof id === "string");
+}
+
+function auditOutcome(response: any): AuditOutcome {
+  if (response?.duplicate === true) return "duplicate";
+  if (response?.partial_failure) return "partial";
+  if (response?.queued === true || (response?.batched && response.queued > 0 && response.sent === 0)) return "queued";
+  return "success";
+}
+
+function uploadedFileIds(response: any): string[] {
+  return writeResponses(response)
+    .flatMap(r => payloadOf(r)?.file_detail_list ?? [])
+    .map((f: any) => f?.id ?? f?.file_id)
+    .filter((id: unknown): id is string => typeof id === "string");
+}
+
+/**
+ * A user ID other than the configured one, if MEMOS_USER_MAP maps it to a
+ * real user ID or MEMOS_USER_ALLOW lists it (`*` allows any); otherwise an
+ * error naming the allowed IDs.
+ */
+export function allowedUserId(user_id: string, { userAllow, userMap }: Pick<MemosConfig, "userAllow" | "userMap">): string {
+  if (Object.hasOwn(userMap, user_id)) return userMap[user_id];
+  if (userAllow.includes(user_id) || userAllow.includes("*")) return user_id;
+
+  const allowed = [...Object.keys(userMap), ...userAllow];
+  if (!allowed.length) {
+    throw new Error("user_id cannot be set per call on this server. Leave it out to use MEMOS_USER_ID, or configure MEMOS_USER_ALLOW or MEMOS_USER_MAP.");
+  }
+  throw new Error(`user_id "${user_id}" is not allowed. Allowed user IDs: ${allowed.join(", ")}.`);
+}
+
+/**
+ * The MemOS operations behind every tool, bound to one identity. Both the MCP
+ * server and the command-line subcommands go through this class, so a request
+ * built from the CLI is exactly the request an agent would send.
+ */
+export class MemosService {
+  readonly backend: MemosBackend
+  readonly writeQueue: WriteQueue
+  // Validated once at startup, so operations no longer check it per call.
+  readonly channel: string
+  private readonly redactor: Redactor
+  private readonly searchCache: SearchCache
+  private readonly batchLimits: BatchLimits
+  private readonly kbLimits: Pick<KbIngestOptions, "maxFileBytes" | "maxTotalBytes">
+  private knowledgebaseList?: Promise<any[]>
+  private readonly tasks: TaskRegistry
+  private readonly auditLog: AuditLog
+  private readonly idempotency: IdempotencyKeys
+  private readonly taskWaitMaxMs: number
+  private readonly session: SessionContext
+  private readonly userAllow: string[]
+  private readonly userMap: Record<string, string>
+  readonly conversationStrategy: MemosConfig["conversationStrategy"]
+  private readonly pinnedConversationId?: string
+  /** Conversation of the `session` strategy: one per server instance, i.e. per MCP session. */
+  private readonly sessionConversationId = uuidv4()
+
+  constructor(session: SessionContext) {
+    const config = getConfig();
+    this.backend = getBackend();
+    this.writeQueue = getWriteQueue();
+    this.channel = config.channel;
+    this.redactor = getRedactor();
+    this.searchCache = getSearchCache();
+    this.batchLimits = config;
+    this.kbLimits = { maxFileBytes: config.kbMaxFileBytes, maxTotalBytes: config.kbMaxTotalBytes };
+    this.tasks = getTaskRegistry();
+    this.auditLog = getAuditLog();
+    this.idempotency = getIdempotencyKeys();
+    this.taskWaitMaxMs = config.taskWaitMaxMs;
+    this.conversationStrategy = config.conversationStrategy;
+    this.pinnedConversationId = config.conversationId;
+    this.userAllow = config.userAllow;
+    this.userMap = config.userMap;
+
+    if (!this.backend.requiresApiKey && !session.apiKey) {
+      // The local backend has no accounts; any placeholder key will do.
+      session = { ...session, apiKey: "local" };
+    }
+    this.session = session;
+  }
+
+  get userId(): string | undefined {
+    return this.session.userId;
+  }
+
+  requireApiKey(): string {
+    if (!this.session.apiKey) {
+      throw new Error("MEMOS_API_KEY is not set, please set it in the environment variables or mcp.json file");
+    }
+    return this.session.apiKey;
+  }
+
+  requireUserId(): string {
+    if (!this.session.userId) {
+      throw new Error("MEMOS_USER_ID is not set, please set it in the environment variables or mcp.json file");
+    }
+    return this.session.userId;
+  }
+
+  /**
+   * The user a call acts for: MEMOS_USER_ID, or a per-call `user_id` that
+   * MEMOS_USER_MAP maps to a real user ID or MEMOS_USER_ALLOW lists (`*`
+   * allows any).
+   */
+  userIdFor(user_id?: string): string {
+    if (user_id === undefined || user_id === this.session.userId) return this.requireUserId();
+    return allowedUserId(user_id, { userAllow: this.userAllow, userMap: this.userMap });
+  }
+
+  /** Send a request to the backend with this session's key and channel. */
+  request(path: string, body: any): Promise<any> {
+    return this.backend.request(path, body, this.requireApiKey(), this.channel);
+  }
+
+  /**
+   * Resolve the conversation of a call:
+   * - `hash`: md5 of the user ID and the first message, or the pinned ID when
+   *   no first message is given.
+   * - `explicit`: the caller must pass `conversation_id`.
+   * - `env`: always the pinned `MEMOS_CONVERSATION_ID`.
+   * - `session`: one conversation per MCP session.
+   */
+  conversationId({ conversation_id, conversation_first_message }: ConversationRef, userId?: string): string {
+    if (conversation_id) return conversation_id;
+
+    switch (this.conversationStrategy) {
+      case "hash":
+        if (conversation_first_message) return this.hashedConversationId(conversation_first_message, userId);
+        if (this.pinnedConversationId) return this.pinnedConversationId;
+        throw new Error("Either conversation_id or conversation_first_message is required");
+      case "explicit":
+        throw new Error("conversation_id is required (MEMOS_CONVERSATION_STRATEGY is explicit)");
+      case "env":
+        return this.pinnedConversationId!;
+      case "session":
+        return this.sessionConversationId;
+    }
+  }
+
+  /** The conversation the `hash` strategy derives from a first message, whatever the configured strategy. */
+  hashedConversationId(conversation_first_message: string, userId?: string): string {
+    return stringToMd5((userId ?? this.requireUserId()) + '\n' + conversation_first_message);
+  }
+
+  async addMessage({ messages, user_id, agent_id, app_id, ...conversation }: AddMessageArgs): Promise<any> {
+    if (!messages.length) throw new Error(EMPTY_MESSAGES);
+    return this.audited("add_message", { agent_id, app_id, count: messages.length }, async audit => {
+      const apiKey = this.requireApiKey();
+      const userId = audit.user_id = this.userIdFor(user_id);
+
+      const conversationId = this.conversationId(conversation, userId);
+      audit.conversation_hash = hashConversationId(conversationId);
+      const newMessages = messages.map((message, i) => ({
+        role: message.role,
+        content: this.redactor.redact(message.content, { tool: "add_message", field: `messages[${i}].content`, conversation_id: conversationId }),
+        chat_time: message.chat_time || generateChatTime()
+      }));
+
+      // Parts remember which message they came from, to tell how many messages a partial write saved.
+      const batches = planBatches(newMessages.map((message, index) => ({ ...message, index })), this.batchLimits);
+      const send = async (parts: typeof batches[number]) => this.trackTask("add_message", await sendOrQueue(
+        "add_message",
+        "/add/message",
+        {
+          user_id: userId,
+          conversation_id: conversationId,
+          agent_id,
+          app_id,
+          messages: parts.map(({ index, ...message }) => message)
+        },
+        apiKey,
+        this.channel
+      ));
+
+      // Generated chat times differ on every call, so only times the caller gave are part of the key.
+      const content = messages.map(m => ({ role: m.role, content: m.content, chat_time: m.chat_time }));
+      return this.idempotent("add_message", { user_id: userId, conversation_id: conversationId, agent_id, app_id, messages: content }, async () => {
+        try {
+          if (batches.length === 1) {
+            return await send(batches[0]);
+          }
+          const result = await sendBatches(batches, send);
+          const unsaved = result.batches.findIndex(b => b.status === "failed" || b.status === "skipped");
+          return { ...result, saved_messages: unsaved < 0 ? messages.length : batches[unsaved][0].index };
+        } finally {
+          this.invalidateSearches(userId);
+        }
+      });
+    });
+  }
+
+  async searchMemory(args: SearchMemoryArgs): Promise<any> {
+    const userId = this.userIdFor(args.user_id);
+
+    const body: Record<string, any> = {
+      query: args.query,
+      user_id: userId,
+      conversation_id: this.conversationId(args, userId),
+      memory_limit_number: args.memory_limit_number || 6
+    };
+
+    if (args.agent_id) body.agent_id = args.agent_id;
+    if (args.app_id) body.app_id = args.app_id;
+    if (args.filter) body.filter = args.filter;
+    if (args.knowledgebase_ids) {
+      body.knowledgebase_ids = await Promise.all(args.knowledgebase_ids.map(ref => this.resolveKnowledgeBase(ref)));
+    }
+
+    if (args.include_preference !== undefined) body.include_preference = args.include_preference;
+    if (args.preference_limit_number !== undefined) body.preference_limit_number = args.preference_limit_number;
+    if (args.include_tool_memory !== undefined) body.include_tool_memory = args.include_tool_memory;
+    if (args.tool_memory_limit_number !== undefined) body.tool_memory_limit_number = args.tool_memory_limit_number;
+    if (args.include_skill !== undefined) body.include_skill = args.include_skill;
+    if (args.skill_limit_number !== undefined) body.skill_limit_number = args.skill_limit_number;
+    if (args.relativity !== undefined) body.relativity = args.relativity;
+
+    const account = SearchCache.account(this.requireApiKey());
+    const key = SearchCache.key(account, body);
+    const cached = this.searchCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const data = await this.request("/search/memory", body);
+    this.searchCache.set(key, account, body, data);
+    return data;
+  }
+
+  async deleteMemory(memory_ids: string[], user_id?: string): Promise<any> {
+    return this.audited("delete_memory", { ids: memory_ids }, async audit => {
+      const userId = audit.user_id = this.userIdFor(user_id);
+      try {
+        return await this.request("/delete/memory", { user_ids: [userId], memory_ids });
+      } finally {
+        this.invalidateSearches(userId);
+      }
+    });
+  }
+
+  async addFeedback(args: AddFeedbackArgs): Promise<any> {
+    return this.audited("add_feedback", { agent_id: args.agent_id, app_id: args.app_id }, async audit => {
+      const apiKey = this.requireApiKey();
+      const userId = audit.user_id = this.userIdFor(args.user_id);
+      const conversationId = this.conversationId(args, userId);
+      audit.conversation_hash = hashConversationId(conversationId);
+
+      const content = {
+        user_id: userId,
+        conversation_id: conversationId,
+        feedback_content: args.feedback_content,
+        agent_id: args.agent_id,
+        app_id: args.app_id,
+        feedback_time: args.feedback_time,
+        allow_public: args.allow_public,
+        allow_knowledgebase_ids: args.allow_knowledgebase_ids
+      };
+      return this.idempotent("add_feedback", content, async () => {
+        try {
+          return this.trackTask("add_feedback", await sendOrQueue(
+            "add_feedback",
+            "/add/feedback",
+            {
+              user_id: userId,
+              conversation_id: conversationId,
+              feedback_content: this.redactor.redact(args.feedback_content, { tool: "add_feedback", field: "feedback_content", conversation_id: conversationId }),
+              agent_id: args.agent_id,
+              app_id: args.app_id,
+              // Pin the time now so a queued replay keeps the original moment.
+              feedback_time: args.feedback_time ?? dayjs().toISOString(),
+              allow_public: args.allow_public,
+              allow_knowledgebase_ids: args.allow_knowledgebase_ids
+            },
+            apiKey,
+            this.channel
+          ));
+        } finally {
+          this.invalidateSearches(userId);
+        }
+      });
+    });
+  }
+
+  async getUserProfile(args: GetUserProfileArgs): Promise<any> {
+    const userId = this.userIdFor(args.user_id);
+    return this.request("/get/memory", {
+      user_id: userId,
+      agent_id: args.agent_id,
+      app_id: args.app_id,
+      include_preference: args.include_preference ?? true,
+      include_tool_memory: args.include_tool_memory ?? false,
+      current: args.current ?? 1,
+      size: args.size ?? 20
+    });
+  }
+
+  async createKnowledgeBase(knowledgebase_name: string, knowledgebase_description?: string): Promise<any> {
+    return this.audited("create_knowledge_base", {}, async audit => {
+      try {
+        const response = await this.request("/create/knowledgebase", { knowledgebase_name, knowledgebase_description });
+        const created = kbIdOf(payloadOf(response));
+        if (created) audit.knowledgebase_id = created;
+        return response;
+      } finally {
+        this.knowledgebaseList = undefined;
+      }
+    });
+  }
+
+  async listKnowledgeBases(current = 1, size = 20): Promise<any> {
+    return this.request("/get/knowledgebase", { current, size });
+  }
+
+  /** Rename or redescribe a knowledge base; `knowledgebase` is its ID or name. */
+  async updateKnowledgeBase(knowledgebase: string, changes: { knowledgebase_name?: string, knowledgebase_description?: string }): Promise<any> {
+    return this.audited("update_knowledge_base", {}, async audit => {
+      const knowledgebase_id = audit.knowledgebase_id = await this.resolveKnowledgeBase(knowledgebase);
+      try {
+        return await this.request("/update/knowledgebase", { knowledgebase_id, ...changes });
+      } finally {
+        this.knowledgebaseList = undefined;
+      }
+    });
+  }
+
+  /**
+   * Upload documents; directories and globs in `file` expand to the files
+   * they contain. Files are read batch by batch, at most 20 per request.
+   */
+  async addKbDocuments(knowledgebase: string, file: KbFileInput[], filter: Pick<KbIngestOptions, "include" | "exclude"> = {}): Promise<any> {
+    return this.audited("add_kb_document", {}, async audit => {
+      const knowledgebase_id = audit.knowledgebase_id = await this.resolveKnowledgeBase(knowledgebase);
+      const files = expandKbFiles(file, { ...filter, ...this.kbLimits });
+      audit.count = files.length;
+      const batches: KbFileInput[][] = [];
+      for (let i = 0; i < files.length; i += KB_BATCH_FILES) batches.push(files.slice(i, i + KB_BATCH_FILES));
+
+      let index = 0;
+      const send = async (batch: KbFileInput[]) => this.trackUpload(knowledgebase_id, await this.mutateKnowledgebases("/add/knowledgebase-file", {
+        knowledgebase_id,
+        file: batch.map(prepareKbFile).map(f => redactTextFile(f, this.redactor, `file[${index++}]`))
+      }));
+      if (batches.length === 1) return send(batches[0]);
+      return sendBatches(batches, send);
+    }, response => ({ ids: uploadedFileIds(response) }));
+  }
+
+  async listKbDocuments(knowledgebase: string, current = 1, size = 20): Promise<any> {
+    const knowledgebase_id = await this.resolveKnowledgeBase(knowledgebase);
+    return this.request("/get/knowledgebase-file-list", { knowledgebase_id, current, size });
+  }
+
+  async getKbDocuments(file_ids: string[]): Promise<any> {
+    return this.request("/get/knowledgebase-file", { file_ids });
+  }
+
+  /**
+   * Processing status of uploaded documents, one entry per requested ID.
+   * `pending` counts documents that are neither finished nor failed yet.
+   */
+  async getKbDocumentStatus(file_ids: string[]): Promise<KbDocumentStatusReport> {
+    const files: any[] = payloadOf(await this.getKbDocuments(file_ids))?.file_detail_list ?? [];
+    const documents = file_ids.map(file_id => {
+      const file = files.find(f => (f?.id ?? f?.file_id) === file_id);
+      if (!file) return { file_id, status: "not_found" };
+      return {
+        file_id,
+        name: file.name ?? file.file_name,
+        status: String(file.status ?? "unknown").toLowerCase(),
+        ...(file.error ? { error: file.error } : {})
+      };
+    });
+    const counts: Record<string, number> = {};
+    for (const d of documents) counts[d.status] = (counts[d.status] ?? 0) + 1;
+    return { documents, counts, pending: documents.filter(d => !isSettled(d.status)).length };
+  }
+
+  async deleteKbDocuments(file_ids: string[]): Promise<any> {
+    return this.audited("delete_kb_documents", { ids: file_ids }, () => this.mutateKnowledgebases("/delete/knowledgebase-file", { file_ids }));
+  }
+
+  async removeKnowledgeBase(knowledgebase: string): Promise<any> {
+    return this.audited("remove_knowledge_base", {}, async audit => {
+      const knowledgebase_id = audit.knowledgebase_id = await this.resolveKnowledgeBase(knowledgebase);
+      try {
+        return await this.mutateKnowledgebases("/delete/knowledgebase", { knowledgebase_id });
+      } finally {
+        this.knowledgebaseList = undefined;
+      }
+    });
+  }
+
+  /**
+   * Turn a knowledge base reference into its ID. UUIDs and `all` are taken
+   * as they are; anything else must be the exact ID or the (case-insensitive)
+   * name of one of the user's knowledge bases. When the API cannot list
+   * knowledge bases, the reference is passed through unchanged.
+   */
+  async resolveKnowledgeBase(reference: string): Promise<string> {
+    const value = reference.trim();
+    if (value === "all" || UUID_PATTERN.test(value)) return value;
+
+    let knowledgebases: any[];
+    try {
+      knowledgebases = await this.allKnowledgeBases();
+    } catch (e) {
+      if (e instanceof MemosValidationError) return value;
+      throw e;
+    }
+
+    if (knowledgebases.some(kb => kbIdOf(kb) === value)) return value;
+    const matches = knowledgebases.filter(kb => String(kbNameOf(kb) ?? "").trim().toLowerCase() === value.toLowerCase());
+    if (matches.length === 1) return kbIdOf(matches[0]);
+    if (matches.length > 1) {
+      throw new Error(`Several knowledge bases are named "${value}" (${matches.map(kbIdOf).join(", ")}). Use the ID instead.`);
+    }
+    const names = knowledgebases.map(kb => `"${kbNameOf(kb)}"`).slice(0, 10).join(", ");
+    throw new Error(`No knowledge base has the ID or name "${value}".${names ? ` Known knowledge bases: ${names}${knowledgebases.length > 10 ? ", ..." : ""}.` : " There are no knowledge bases yet."}`);
+  }
+
+  /** Every knowledge base of the account, fetched once per session until one is created, renamed or removed. */
+  private allKnowledgeBases(): Promise<any[]> {
+    if (!this.knowledgebaseList) {
+      this.knowledgebaseList = (async () => {
+        const all: any[] = [];
+        for (let current = 1; ; current++) {
+          const page: any[] = payloadOf(await this.listKnowledgeBases(current, KB_PAGE_SIZE))?.knowledgebase_detail_list ?? [];
+          const fresh = page.filter(kb => !all.some(known => kbIdOf(known) === kbIdOf(kb)));
+          all.push(...fresh);
+          if (page.length < KB_PAGE_SIZE || !fresh.length) return all;
+        }
+      })();
+      this.knowledgebaseList.catch(() => { this.knowledgebaseList = undefined; });
+    }
+    return this.knowledgebaseList;
+  }
+
+  /**
+   * Current status of a task from `add_message`, `add_feedback` or a KB
+   * upload; an upload can also be looked up by one of its document IDs. With
+   * `waitMs`, polls until the task is done or the wait (capped by
+   * MEMOS_TASK_WAIT_MAX_MS) runs out.
+   */
+  async getTaskStatus(task_id: string, waitMs = 0): Promise<TrackedTask> {
+    const account = SearchCache.account(this.requireApiKey());
+    const deadline = Date.now() + Math.min(Math.max(0, waitMs), this.taskWaitMaxMs);
+    for (;;) {
+      const task = await this.refreshTask(account, task_id);
+      const remaining = deadline - Date.now();
+      if (task.done || remaining <= 0) return task;
+      await new Promise(resolve => setTimeout(resolve, Math.min(TASK_POLL_MS, remaining)));
+    }
+  }
+
+  /** Recent tasks of this account, newest first; unfinished ones are checked once more. */
+  async recentTasks(): Promise<TrackedTask[]> {
+    const account = SearchCache.account(this.requireApiKey());
+    for (const task of this.tasks.recent(account)) {
+      if (!task.done) await this.refreshTask(account, task.task_id).catch(() => undefined);
+    }
+    return this.tasks.recent(account);
+  }
+
+  /**
+   * Drop cached searches of `userId`, or of every user of this API key,
+   * e.g. after replaying the write queue.
+   */
+  invalidateSearches(userId?: string) {
+    this.searchCache.invalidateUser(SearchCache.account(this.requireApiKey()), userId);
+  }
+
+  /** Audit entries of this account, newest first. */
+  queryAuditLog(filter: AuditQuery = {}): AuditEntry[] {
+    return this.auditLog.query(SearchCache.account(this.requireApiKey()), filter);
+  }
+
+  /**
+   * Send a write unless an identical one, by content hash, was saved within
+   * MEMOS_IDEMPOTENCY_WINDOW_MS; that duplicate is reported instead. Failed
+   * and partly saved writes release their key, so they can be retried.
+   */
+  private async idempotent(tool: string, body: Record<string, any>, write: () => Promise<any>): Promise<any> {
+    const key = IdempotencyKeys.key(SearchCache.account(this.requireApiKey()), tool, body);
+    const duplicate = this.idempotency.claim(tool, key);
+    if (duplicate) return duplicate;
+
+    let response: any;
+    try {
+      response = await write();
+    } catch (e) {
+      this.idempotency.release(key);
+      throw e;
+    }
+    if (response?.partial_failure) this.idempotency.release(key);
+    else this.idempotency.settle(key, taskIdsOf(response));
+    return response;
+  }
+
+  /**
+   * Run a mutation and append its outcome to the audit log, failures
+   * included. `run` fills in `details` (user, knowledge base, ...) as it
+   * resolves them, so a call rejected halfway is still attributed.
+   */
+  private async audited(
+    tool: AuditedTool,
+    details: AuditDetails,
+    run: (details: AuditDetails) => Promise<any>,
+    affected?: (response: any) => AuditDetails
+  ): Promise<any> {
+    const account = SearchCache.account(this.requireApiKey());
+    let response: any;
+    try {
+      response = await run(details);
+    } catch (e) {
+      this.auditLog.record({ tool, outcome: "error", account, ...details, error: e instanceof Error ? e.message : String(e) });
+      throw e;
+    }
+    const task_ids = taskIdsOf(response);
+    this.auditLog.record({
+      tool,
+      outcome: auditOutcome(response),
+      account,
+      ...details,
+      ...(task_ids.length ? { task_ids } : {}),
+      ...affected?.(response)
+    });
+    return response;
+  }
+
+  /** Record the `task_id` of a write that was sent (not queued); returns the response unchanged. */
+  private trackTask(tool: string, response: any): any {
+    const payload = payloadOf(response);
+    if (!response?.queued && typeof payload?.task_id === "string") {
+      this.tasks.record(SearchCache.account(this.requireApiKey()), {
+        task_id: payload.task_id,
+        tool,
+        status: String(payload.status ?? "pending").toLowerCase()
+      });
+    }
+    return response;
+  }
+
+  /** Record a KB upload as a task that follows its documents' processing status. */
+  private trackUpload(knowledgebase_id: string, response: any): any {
+    const payload = payloadOf(response);
+    const files: any[] = Array.isArray(payload?.file_detail_list) ? payload.file_detail_list : [];
+    const documents: KbDocumentStatus[] = files
+      .filter(f => f?.id ?? f?.file_id)
+      .map(f => ({ file_id: f.id ?? f.file_id, name: f.name, status: String(f.status ?? "processing").toLowerCase(), error: f.error }));
+    if (documents.length) {
+      this.tasks.record(SearchCache.account(this.requireApiKey()), {
+        task_id: typeof payload?.task_id === "string" ? payload.task_id : `upload-${uuidv4()}`,
+        tool: "add_kb_document",
+        ...uploadStatus(documents),
+        knowledgebase_id,
+        file_ids: documents.map(d => d.file_id)
+      });
+    }
+    return response;
+  }
+
+  private async refreshTask(account: string, id: string): Promise<TrackedTask> {
+    const known = this.tasks.get(account, id) ?? this.tasks.findByFile(account, id);
+    const task_id = known?.task_id ?? id;
+    if (known?.done) return known;
+
+    if (known?.file_ids) {
+      const report = await this.getKbDocumentStatus(known.file_ids);
+      return this.tasks.update(account, task_id, uploadStatus(report.documents))!;
+    }
+
+    const payload = payloadOf(await this.request("/get/task-status", { task_id }));
+    const status = String(payload?.status ?? "unknown").toLowerCase();
+    const error = typeof payload?.error === "string" ? payload.error : undefined;
+    if (known) return this.tasks.update(account, task_id, { status, error })!;
+    // Not started from this server: report it without tracking it.
+    const time = new Date().toISOString();
+    return { task_id, tool: "unknown", status, done: isSettled(status), created_at: time, updated_at: time, ...(error ? { error } : {}) };
+  }
+
+  private async mutateKnowledgebases(path: string, body: any): Promise<any> {
+    try {
+      return await this.request(path, body);
+    } finally {
+      this.searchCache.invalidateKnowledgebases(SearchCache.account(this.requireApiKey()));
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { createHash } from "node:crypto"
+import { existsSync, FSWatcher, mkdirSync, readFileSync, renameSync, statSync, watch, writeFileSync } from "node:fs"
+import { join, relative, resolve } from "node:path"
+import { getConfig } from "./config.js"
+import { isHiddenPath, KB_BATCH_FILES, KbIngestOptions, listDirectory, resolveLocalPath } from "./ingest.js"
+import { MemosService, payloadOf } from "./service.js"
+
+/** Quiet period after the last file change before a watched folder is synced. */
+const WATCH_DEBOUNCE_MS = 1000;
+
+interface ManifestEntry {
+  sha256: string
+  file_id: string
+  size: number
+  synced_at: string
+}
+
+/**
+ * What was last uploaded from a folder: relative path to content hash and
+ * KB file ID. Lives under `MEMOS_KB_SYNC_DIR`, one file per KB and folder.
+ */
+interface SyncManifest {
+  knowledgebase_id: string
+  directory: string
+  files: Record<string, ManifestEntry>
+  /** Replaced or removed KB files whose deletion has not succeeded yet. */
+  pending_deletions?: string[]
+}
+
+export interface SyncOptions extends Pick<KbIngestOptions, "include" | "exclude"> {
+  knowledgebase_id: string
+  directory: string
+  dry_run?: boolean
+  /**
+   * Asked before the KB copies of files removed from the folder are deleted;
+   * when it returns false they are kept, and asked about again on the next
+   * sync. Old copies of changed files are deleted without asking.
+   */
+  confirmRemoval?: (fileIds: string[]) => Promise<boolean>
+}
+
+export interface SyncResult {
+  knowledgebase_id: string
+  directory: string
+  dry_run: boolean
+  manifest: string
+  added: string[]
+  changed: string[]
+  removed: string[]
+  unchanged: number
+  uploaded: number
+  deleted: number
+  /** Removed files whose KB copies were kept because the deletion was not confirmed. */
+  kept?: string[]
+}
+
+function manifestPath(knowledgebaseId: string, directory: string): string {
+  const key = createHash("sha256").update(`${knowledgebaseId}\n${directory}`).digest("hex").slice(0, 16);
+  return join(getConfig().kbSyncDir, `${key}.json`);
+}
+
+function loadManifest(path: string, knowledgebaseId: string, directory: string): SyncManifest {
+  if (!existsSync(path)) return { knowledgebase_id: knowledgebaseId, directory, files: {} };
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new Error(`Sync manifest ${path} is unreadable (${e instanceof Error ? e.message : String(e)}). Delete it to start over; every file will then be uploaded again.`);
+  }
+}
+
+/** Write through a temporary file, so an interrupted sync never leaves half a manifest. */
+function saveManifest(path: string, manifest: SyncManifest) {
+  mkdirSync(join(path, ".."), { recursive: true });
+  writeFileSync(`${path}.tmp`, JSON.stringify(manifest, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+function sha256File(path: string): string {
+  return createHash("sha256").update(readFileSync(path)).digest("hex");
+}
+
+/** File IDs from an upload response, in the order the files were sent. */
+function uploadedIds(response: any, names: string[]): (string | undefined)[] {
+  const list: any[] = Array.isArray(payloadOf(response)?.file_detail_list) ? payloadOf(response).file_detail_list : [];
+  if (list.length === names.length) return list.map(f => f?.id ?? f?.file_id);
+  return names.map(name => {
+    const match = list.find(f => (f?.name ?? f?.file_name) === name);
+    return match?.id ?? match?.file_id;
+  });
+}
+
+/**
+ * Bring a knowledge base in line with a local folder: upload new and changed
+ * files, then delete the KB copies of changed and removed ones. The manifest
+ * is saved after every step, so an interrupted sync resumes where it stopped.
+ * With `dry_run`, only the diff is computed.
+ */
+export async function syncKnowledgeBase(service: MemosService, options: SyncOptions): Promise<SyncResult> {
+  const directory = resolve(resolveLocalPath(options.directory));
+  if (!existsSync(directory) || !statSync(directory).isDirectory()) {
+    throw new Error(`'${options.directory}' is not a directory.`);
+  }
+
+  const knowledgebaseId = await service.resolveKnowledgeBase(options.knowledgebase_id);
+  const path = manifestPath(knowledgebaseId, directory);
+  const manifest = loadManifest(path, knowledgebaseId, directory);
+
+  const current = new Map<string, { path: string, sha256: string, size: number }>();
+  for (const file of listDirectory(directory, options)) {
+    const rel = relative(directory, file).replace(/\\/g, "/");
+    current.set(rel, { path: file, sha256: sha256File(file), size: statSync(file).size });
+  }
+
+  const added = [...current.keys()].filter(rel => !manifest.files[rel]);
+  const changed = [...current.keys()].filter(rel => manifest.files[rel] && manifest.files[rel].sha256 !== current.get(rel)!.sha256);
+  const removed = Object.keys(manifest.files).filter(rel => !current.has(rel));
+  const result: SyncResult = {
+    knowledgebase_id: knowledgebaseId,
+    directory,
+    dry_run: !!options.dry_run,
+    manifest: path,
+    added,
+    changed,
+    removed,
+    unchanged: current.size - added.length - changed.length,
+    uploaded: 0,
+    deleted: 0
+  };
+  if (options.dry_run) return result;
+
+  // Upload first: a changed document stays searchable until its new copy is in.
+  const uploads = [...added, ...changed];
+  const pending = manifest.pending_deletions ?? [];
+  for (let i = 0; i < uploads.length; i += KB_BATCH_FILES) {
+    const batch = uploads.slice(i, i + KB_BATCH_FILES);
+    const response = await service.addKbDocuments(
+      knowledgebaseId,
+      batch.map(rel => ({ content: current.get(rel)!.path, file_name: rel }))
+    );
+    const missing: string[] = [];
+    uploadedIds(response, batch).forEach((fileId, j) => {
+      const rel = batch[j];
+      if (!fileId) {
+        missing.push(rel);
+        return;
+      }
+      if (manifest.files[rel]) pending.push(manifest.files[rel].file_id);
+      const { sha256, size } = current.get(rel)!;
+      manifest.files[rel] = { sha256, file_id: fileId, size, synced_at: new Date().toISOString() };
+      result.uploaded++;
+    });
+    manifest.pending_deletions = pending;
+    saveManifest(path, manifest);
+    if (missing.length) {
+      throw new Error(`The upload response has no file ID for ${missing.join(", ")}; they will be uploaded again on the next sync.`);
+    }
+  }
+
+  const removedIds = removed.map(rel => manifest.files[rel].file_id);
+  if (removed.length && options.confirmRemoval && !await options.confirmRemoval(removedIds)) {
+    result.kept = removed;
+  } else {
+    for (const rel of removed) delete manifest.files[rel];
+    pending.push(...removedIds);
+  }
+  manifest.pending_deletions = pending;
+  saveManifest(path, manifest);
+
+  if (pending.length) {
+    await service.deleteKbDocuments(pending);
+    result.deleted = pending.length;
+    delete manifest.pending_deletions;
+  }
+  saveManifest(path, manifest);
+  return result;
+}
+
+/**
+ * Keeps a knowledge base in step with a folder by syncing after every burst
+ * of file changes; run one sync first to catch up. Syncs never overlap; a
+ * change during a sync schedules one more. Changes to hidden files, which
+ * the sync skips, are ignored. If the watch itself fails (the folder is
+ * deleted, or the system runs out of watches), the watcher closes and
+ * reports the error through `onSync` with `watching` false; nothing else
+ * is reported after `close`.
+ */
+export class FolderWatcher {
+  private watcher?: FSWatcher
+  private timer?: NodeJS.Timeout
+  private running?: Promise<void>
+  private pending = false
+
+  constructor(
+    private readonly service: MemosService,
+    readonly options: Omit<SyncOptions, "dry_run">,
+    private readonly onSync: (result: SyncResult | undefined, error?: unknown) => void
+  ) {}
+
+  get watching(): boolean {
+    return !!this.watcher;
+  }
+
+  start() {
+    const directory = resolve(resolveLocalPath(this.options.directory));
+    try {
+      this.watcher = watch(directory, { recursive: true }, (_, filename) => {
+        if (!filename || !isHiddenPath(filename.toString())) this.schedule();
+      });
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+        throw new Error(`Watching folders needs Node.js 20 or later on ${process.platform}; sync without watching instead.`);
+      }
+      throw e;
+    }
+    this.watcher.on("error", error => {
+      this.close();
+      this.onSync(undefined, new Error(`Stopped watching ${directory}: ${error.message}`, { cause: error }));
+    });
+  }
+
+  close() {
+    clearTimeout(this.timer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private schedule() {
+    if (!this.watcher) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.run(), WATCH_DEBOUNCE_MS);
+  }
+
+  private run() {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    this.running = syncKnowledgeBase(this.service, this.options)
+      .then(result => this.watcher && this.onSync(result), error => this.watcher && this.onSync(undefined, error))
+      .finally(() => {
+        this.running = undefined;
+        if (this.pending) {
+          this.pending = false;
+          this.schedule();
+        }
+      });
+  }
+}
@@ -0,0 +1,87 @@
+import { getConfig } from "./config.js"
+
+/** Statuses after which a task or document will not change any more. */
+export const SETTLED_STATUSES = new Set(["completed", "success", "succeeded", "done", "failed", "error", "cancelled", "canceled", "not_found"]);
+
+/**
+ * A write the API finishes in the background: a `task_id` returned by
+ * `add_message`/`add_feedback`, or a KB upload, followed through the
+ * processing status of its documents.
+ */
+export interface TrackedTask {
+  task_id: string
+  tool: string
+  status: string
+  /** True once `status` is final. */
+  done: boolean
+  created_at: string
+  updated_at: string
+  knowledgebase_id?: string
+  file_ids?: string[]
+  error?: string
+}
+
+interface TaskEntry {
+  account: string
+  task: TrackedTask
+}
+
+export function isSettled(status: string): boolean {
+  return SETTLED_STATUSES.has(status.toLowerCase());
+}
+
+/**
+ * In-process record of recent asynchronous tasks, newest last, capped at
+ * `maxTasks`. Tasks are scoped to the account that created them, so HTTP
+ * sessions with different API keys never see each other's tasks.
+ */
+export class TaskRegistry {
+  private readonly entries = new Map<string, TaskEntry>()
+
+  constructor(private readonly maxTasks: number) {}
+
+  record(account: string, task: Omit<TrackedTask, "created_at" | "updated_at" | "done">): TrackedTask {
+    const time = new Date().toISOString();
+    const tracked: TrackedTask = { ...task, done: isSettled(task.status), created_at: time, updated_at: time };
+    this.entries.delete(task.task_id);
+    this.entries.set(task.task_id, { account, task: tracked });
+    while (this.entries.size > this.maxTasks) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return tracked;
+  }
+
+  get(account: string, taskId: string): TrackedTask | undefined {
+    const entry = this.entries.get(taskId);
+    return entry?.account === account ? entry.task : undefined;
+  }
+
+  /** The tracked upload that contains document `fileId`. */
+  findByFile(account: string, fileId: string): TrackedTask | undefined {
+    return this.recent(account).find(task => task.file_ids?.includes(fileId));
+  }
+
+  update(account: string, taskId: string, changes: Partial<Pick<TrackedTask, "status" | "error">>): TrackedTask | undefined {
+    const task = this.get(account, taskId);
+    if (!task) return undefined;
+    Object.assign(task, changes, { updated_at: new Date().toISOString() });
+    task.done = isSettled(task.status);
+    return task;
+  }
+
+  /** The account's tasks, newest first. */
+  recent(account: string, limit = this.maxTasks): TrackedTask[] {
+    return [...this.entries.values()]
+      .filter(entry => entry.account === account)
+      .map(entry => entry.task)
+      .reverse()
+      .slice(0, limit);
+  }
+}
+
+let taskRegistry: TaskRegistry | undefined;
+
+export function getTaskRegistry(): TaskRegistry {
+  if (!taskRegistry) taskRegistry = new TaskRegistry(getConfig().taskHistorySize);
+  return taskRegistry;
+}
@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto"
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { memoryText } from "./render.js"
+import { ChatMessage, MemoryScope, MemosService, payloadOf } from "./service.js"
+
+/** `/get/memory` rejects pages larger than this. */
+const EXPORT_PAGE_SIZE = 50;
+/** Entries sent per `add_message` call during import. */
+const IMPORT_BATCH_SIZE = 10;
+/** First message that places imported entries without a conversation. */
+const IMPORT_FIRST_MESSAGE = "memos-import";
+const ASSISTANT_PREFIX = "[assistant opinion] ";
+
+export type ExportFormat = "jsonl" | "markdown"
+export type MemoryKind = "fact" | "preference" | "tool_memory"
+
+/** One line of a JSONL export. `detail` is the item exactly as the API returned it. */
+export interface ExportedMemory {
+  kind: MemoryKind
+  id?: string
+  text: string
+  create_time?: string
+  conversation_id?: string
+  detail: any
+}
+
+const KIND_LISTS: [kind: MemoryKind, key: string, title: string][] = [
+  ["fact", "memory_detail_list", "Facts"],
+  ["preference", "preference_detail_list", "Preferences"],
+  ["tool_memory", "tool_memory_detail_list", "Tool memories"]
+];
+
+/**
+ * Walk every `/get/memory` page of the session's user and collect facts,
+ * preferences and tool memories. Stops at the first page where every list
+ * is short, or when a page brings nothing new (an API that ignores paging).
+ */
+export async function exportMemories(service: MemosService, onPage?: (page: number, count: number) => void, scope: MemoryScope = {}): Promise<ExportedMemory[]> {
+  const entries: ExportedMemory[] = [];
+  const seen = new Set<string>();
+
+  for (let page = 1; ; page++) {
+    const data = payloadOf(await service.getUserProfile({
+      ...scope,
+      include_preference: true,
+      include_tool_memory: true,
+      current: page,
+      size: EXPORT_PAGE_SIZE
+    }));
+
+    let added = 0;
+    let full = false;
+    for (const [kind, key] of KIND_LISTS) {
+      const items: any[] = Array.isArray(data?.[key]) ? data[key] : [];
+      if (items.length >= EXPORT_PAGE_SIZE) full = true;
+      for (const item of items) {
+        const dedupeKey = item?.id ? `${kind}:${item.id}` : undefined;
+        if (dedupeKey && seen.has(dedupeKey)) continue;
+        if (dedupeKey) seen.add(dedupeKey);
+        entries.push({
+          kind,
+          id: item?.id,
+          text: memoryText(item),
+          create_time: item?.create_time,
+          conversation_id: item?.conversation_id,
+          detail: item
+        });
+        added++;
+      }
+    }
+
+    onPage?.(page, entries.length);
+    if (!full || added === 0) break;
+  }
+
+  return entries;
+}
+
+export function renderExport(entries: ExportedMemory[], format: ExportFormat, userId?: string): string {
+  if (format === "jsonl") {
+    return entries.map(entry => JSON.stringify(entry)).join("\n") + (entries.length ? "\n" : "");
+  }
+
+  const lines = [`# Memories${userId ? ` of ${userId}` : ""}`, ""];
+  const counts = KIND_LISTS.map(([kind, , title]) => `${entries.filter(e => e.kind === kind).length} ${title.toLowerCase()}`);
+  lines.push(`Exported ${new Date().toISOString()}: ${counts.join(", ")}.`);
+  for (const [kind, , title] of KIND_LISTS) {
+    const items = entries.filter(e => e.kind === kind);
+    if (!items.length) continue;
+    lines.push("", `## ${title}`, "");
+    for (const item of items) {
+      const meta = [item.create_time, item.id].filter(Boolean).join(", ");
+      lines.push(`- ${item.text.replace(/\s*\n\s*/g, " ")}${meta ? ` (${meta})` : ""}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Parse a JSONL export. Markdown exports are for reading and cannot be imported. */
+export function parseExport(text: string, origin: string): ExportedMemory[] {
+  const entries: ExportedMemory[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`${origin}:${index + 1}: not valid JSON (only JSONL exports can be imported)`);
+    }
+    if (typeof entry?.text !== "string" || !KIND_LISTS.some(([kind]) => kind === entry.kind)) {
+      throw new Error(`${origin}:${index + 1}: expected an exported memory with "kind" and "text"`);
+    }
+    entries.push(entry);
+  });
+  return entries;
+}
+
+/**
+ * The message an exported memory is replayed as. Assistant opinions go back
+ * in as assistant turns so they keep their lower weight.
+ */
+function toMessage(entry: ExportedMemory): ChatMessage {
+  const fromAssistant = entry.text.startsWith(ASSISTANT_PREFIX);
+  return {
+    role: fromAssistant ? "assistant" : "user",
+    content: fromAssistant ? entry.text.slice(ASSISTANT_PREFIX.length) : entry.text,
+    chat_time: entry.create_time
+  };
+}
+
+export interface ImportProgress {
+  completed: number
+  total: number
+}
+
+export interface ImportResult extends ImportProgress {
+  /** Entries skipped because an earlier run already imported them. */
+  resumed_from: number
+  /** Entries handed to the offline write queue instead of the API. */
+  queued: number
+  stopped?: string
+  state_file?: string
+}
+
+interface ImportState {
+  source_sha256: string
+  completed: number
+}
+
+/**
+ * Replay a JSONL export through `add_message`, in order and in small batches.
+ * Entries keep their original `conversation_id`; entries without one go to
+ * the conversation the configured strategy picks, or with the `explicit`
+ * strategy to the one `hash` derives for imports.
+ *
+ * Progress is saved to `<file>.import-state.json` after every batch, so a run
+ * that fails part-way resumes where it stopped; the state file is removed
+ * once everything is imported. `restart` ignores saved progress.
+ */
+export async function importMemories(
+  service: MemosService,
+  file: string,
+  options: { restart?: boolean, onProgress?: (progress: ImportProgress) => void } = {}
+): Promise<ImportResult> {
+  const text = readFileSync(file, "utf8");
+  const entries = parseExport(text, file);
+  const sourceHash = createHash("sha256").update(text).digest("hex");
+  const stateFile = `${file}.import-state.json`;
+
+  let completed = 0;
+  if (!options.restart && existsSync(stateFile)) {
+    const state = JSON.parse(readFileSync(stateFile, "utf8")) as ImportState;
+    if (state.source_sha256 !== sourceHash) {
+      throw new Error(`${file} changed since the import was started; pass restart to import it from the beginning`);
+    }
+    completed = state.completed;
+  }
+
+  const result: ImportResult = { completed, total: entries.length, resumed_from: completed, queued: 0 };
+  const saveState = () => writeFileSync(stateFile, JSON.stringify({ source_sha256: sourceHash, completed: result.completed } satisfies ImportState));
+
+  while (result.completed < entries.length) {
+    const first = entries[result.completed];
+    const batch = [first];
+    while (
+      batch.length < IMPORT_BATCH_SIZE &&
+      result.completed + batch.length < entries.length &&
+      entries[result.completed + batch.length].conversation_id === first.conversation_id
+    ) {
+      batch.push(entries[result.completed + batch.length]);
+    }
+
+    try {
+      const data = await service.addMessage({
+        // `explicit` would refuse entries exported without a conversation; they share the one `hash` derives.
+        conversation_id: first.conversation_id ?? (service.conversationStrategy === "explicit" ? service.hashedConversationId(IMPORT_FIRST_MESSAGE) : undefined),
+        conversation_first_message: IMPORT_FIRST_MESSAGE,
+        messages: batch.map(toMessage)
+      });
+      if (data?.partial_failure) {
+        // Only the messages before the failed request were saved; a resume sends the rest again.
+        result.completed += data.saved_messages;
+        result.stopped = data.message;
+      } else {
+        result.completed += batch.length;
+        if (data?.queued) {
+          // Queued writes are delivered later in order; stop rather than queue the whole file.
+          result.queued += batch.length;
+          result.stopped = `API unreachable, the last batch was queued: ${data.reason ?? data.message}`;
+        }
+      }
+    } catch (e) {
+      result.stopped = e instanceof Error ? e.message : String(e);
+    }
+
+    saveState();
+    options.onProgress?.({ completed: result.completed, total: result.total });
+    if (result.stopped) break;
+  }
+
+  if (result.completed >= entries.length) {
+    rmSync(stateFile, { force: true });
+  } else {
+    result.state_file = stateFile;
+  }
+  return result;
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, mock, test } from "node:test"
+import assert from "node:assert/strict"
+import { SearchCache } from "../src/cache.js"
+
+const account = SearchCache.account("key");
+const other = SearchCache.account("other key");
+
+function search(cache: SearchCache, body: Record<string, any>, value: any = body.query, on = account): string {
+  const key = SearchCache.key(on, body);
+  cache.set(key, on, body, value);
+  return key;
+}
+
+beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 0 }));
+afterEach(() => mock.timers.reset());
+
+test("keys ignore the order of options and undefined values", () => {
+  assert.equal(SearchCache.key(account, { b: 1, a: { d: [2, { f: 3, e: undefined }], c: "x" } }), SearchCache.key(account, { a: { c: "x", d: [2, { f: 3 }] }, b: 1 }));
+  assert.notEqual(SearchCache.key(account, { a: [1, 2] }), SearchCache.key(account, { a: [2, 1] }));
+  assert.notEqual(SearchCache.key(account, { query: "q" }), SearchCache.key(other, { query: "q" }));
+});
+
+test("entries expire after the TTL", () => {
+  const cache = new SearchCache(10, 1000);
+  const key = search(cache, { user_id: "alice", query: "q" });
+  mock.timers.tick(999);
+  assert.equal(cache.get(key), "q");
+  mock.timers.tick(1);
+  assert.equal(cache.get(key), undefined);
+  assert.equal(cache.stats().size, 0);
+});
+
+test("the least recently used entry is evicted first", () => {
+  const cache = new SearchCache(2, 1000);
+  const a = search(cache, { user_id: "alice", query: "a" });
+  const b = search(cache, { user_id: "alice", query: "b" });
+  cache.get(a);
+  const c = search(cache, { user_id: "alice", query: "c" });
+  assert.equal(cache.get(b), undefined);
+  assert.equal(cache.get(a), "a");
+  assert.equal(cache.get(c), "c");
+  assert.deepEqual(cache.stats(), { size: 2, max_entries: 2, ttl_ms: 1000, hits: 3, misses: 1, evictions: 1, invalidations: 0, hit_rate: 0.75 });
+});
+
+test("writes drop the user's searches, KB changes the account's KB searches", () => {
+  const cache = new SearchCache(10, 1000);
+  const alice = search(cache, { user_id: "alice", query: "a" });
+  const bob = search(cache, { user_id: "bob", query: "b" });
+  const kb = search(cache, { user_id: "bob", query: "kb", knowledgebase_ids: ["kb1"] });
+  const otherAccount = search(cache, { user_id: "alice", query: "a" }, "a", other);
+
+  cache.invalidateUser(account, "alice");
+  assert.equal(cache.get(alice), undefined);
+  assert.equal(cache.get(otherAccount), "a");
+
+  cache.invalidateKnowledgebases(account);
+  assert.equal(cache.get(kb), undefined);
+  assert.equal(cache.get(bob), "b");
+
+  cache.invalidateUser(account);
+  assert.equal(cache.get(bob), undefined);
+  assert.equal(cache.stats().invalidations, 3);
+});
+
+test("a cache without entries or TTL stores nothing", () => {
+  for (const cache of [new SearchCache(0, 1000), new SearchCache(10, 0)]) {
+    assert.equal(cache.enabled, false);
+    assert.equal(cache.get(search(cache, { user_id: "alice", query: "q" })), undefined);
+    assert.equal(cache.stats().misses, 0);
+  }
+});
@@ -0,0 +1,76 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { planBatches, splitContent } from "../src/chunking.js"
+import { estimateTokens } from "../src/render.js"
+
+const FENCE = /^\s*(```|~~~)/;
+
+/** Opening and closing fence lines in `part`, which balance when it is valid Markdown. */
+function fences(part: string): number {
+  return part.split("\n").filter(line => FENCE.test(line)).length;
+}
+
+test("text within the limit is returned as is", () => {
+  assert.deepEqual(splitContent("short message", 100), ["short message"]);
+});
+
+test("long text is split on line boundaries within the limit", () => {
+  const lines = Array.from({ length: 40 }, (_, i) => `line number ${i} of the message\n`);
+  const text = lines.join("");
+  const parts = splitContent(text, 50);
+  assert.ok(parts.length > 1);
+  assert.equal(parts.join(""), text);
+  for (const part of parts) {
+    assert.ok(estimateTokens(part) <= 50);
+    assert.ok(part.endsWith("\n"));
+  }
+});
+
+test("a line longer than the limit is cut into pieces", () => {
+  const text = "x".repeat(1000);
+  const parts = splitContent(text, 100);
+  assert.equal(parts.join(""), text);
+  assert.ok(parts.every(part => estimateTokens(part) <= 100));
+});
+
+test("CJK text counts a token per character", () => {
+  const text = "记忆".repeat(100);
+  const parts = splitContent(text, 50);
+  assert.equal(parts.join(""), text);
+  assert.ok(parts.every(part => estimateTokens(part) <= 50));
+});
+
+test("a code fence cut in two is closed and reopened", () => {
+  const code = Array.from({ length: 30 }, (_, i) => `const value${i} = compute(${i});\n`).join("");
+  const text = `Intro\n\`\`\`ts\n${code}\`\`\`\nOutro\n`;
+  const parts = splitContent(text, 60);
+  assert.ok(parts.length > 2);
+  for (const part of parts) {
+    assert.equal(fences(part) % 2, 0, part);
+    assert.ok(estimateTokens(part) <= 60);
+  }
+  assert.ok(parts.slice(1, -1).every(part => part.startsWith("```ts\n")));
+  assert.ok(parts.at(-1)!.endsWith("```\nOutro\n"));
+});
+
+test("batches respect the message and token limits and keep the order", () => {
+  const messages = Array.from({ length: 7 }, (_, i) => ({ role: "user", content: `message ${i} `.repeat(4), chat_time: `t${i}` }));
+  const limits = { messageMaxTokens: 100, batchMaxTokens: 25, batchMaxMessages: 3 };
+  const batches = planBatches(messages, limits);
+  assert.deepEqual(batches.flat(), messages);
+  for (const batch of batches) {
+    assert.ok(batch.length <= 3);
+    assert.ok(batch.reduce((sum, m) => sum + estimateTokens(m.content), 0) <= 25);
+  }
+  assert.deepEqual(batches.map(b => b.length), [2, 2, 2, 1]);
+  assert.deepEqual(planBatches(messages, { ...limits, batchMaxTokens: 1000 }).map(b => b.length), [3, 3, 1]);
+});
+
+test("split parts keep the role and chat_time of their message", () => {
+  const message = { role: "assistant", content: "word ".repeat(200), chat_time: "2025-01-31 12:00:00" };
+  const batches = planBatches([message], { messageMaxTokens: 100, batchMaxTokens: 150, batchMaxMessages: 10 });
+  const parts = batches.flat();
+  assert.ok(parts.length > 1 && batches.length > 1);
+  assert.equal(parts.map(p => p.content).join(""), message.content);
+  assert.ok(parts.every(p => p.role === "assistant" && p.chat_time === message.chat_time));
+});
@@ -0,0 +1,85 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { loadConfig } from "../src/config.js"
+import { ConfigError } from "../src/errors.js"
+
+function configFile(content: unknown, name = "config.json"): string {
+  const file = join(mkdtempSync(join(tmpdir(), "memos-config-")), name);
+  writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content));
+  return file;
+}
+
+const file = configFile({
+  timeoutMs: 1000,
+  maxRetries: 1,
+  retryMaxMs: 10,
+  defaultProfile: "work",
+  profiles: {
+    work: { maxRetries: 2, retryMaxMs: 20 },
+    home: { maxRetries: 5 }
+  }
+});
+
+test("later layers win: defaults < file < profile < environment < flags", () => {
+  const { config, profile } = loadConfig(["--config", file, "--retry-max-ms", "40"], { MEMOS_RETRY_MAX_MS: "30" });
+  assert.equal(profile, "work");
+  assert.equal(config.retryBaseMs, 500);
+  assert.equal(config.timeoutMs, 1000);
+  assert.equal(config.maxRetries, 2);
+  assert.equal(config.retryMaxMs, 40);
+});
+
+test("the environment wins over the profile, and an empty variable counts as unset", () => {
+  const { config } = loadConfig(["--config", file], { MEMOS_RETRY_MAX_MS: "30", MEMOS_MAX_RETRIES: "" });
+  assert.equal(config.retryMaxMs, 30);
+  assert.equal(config.maxRetries, 2);
+});
+
+test("--profile and MEMOS_PROFILE select another profile", () => {
+  assert.equal(loadConfig(["--config", file, "--profile", "home"], {}).config.maxRetries, 5);
+  assert.equal(loadConfig(["--config", file], { MEMOS_PROFILE: "home" }).config.maxRetries, 5);
+  assert.throws(() => loadConfig(["--config", file, "--profile", "nope"], {}), ConfigError);
+});
+
+test("YAML config files are read too, and an explicit one must exist", () => {
+  const yaml = configFile("timeoutMs: 2500\nprofiles:\n  home:\n    maxRetries: 4\n", "config.yaml");
+  const { config } = loadConfig(["--config", yaml, "--profile", "home"], {});
+  assert.equal(config.timeoutMs, 2500);
+  assert.equal(config.maxRetries, 4);
+  assert.throws(() => loadConfig(["--config", join(tmpdir(), "memos-missing.json")], {}), /Config file not found/);
+});
+
+test("lists, maps and booleans are parsed from strings", () => {
+  const { config } = loadConfig(["--config", file, "--redact", "0"], {
+    MEMOS_USER_ALLOW: "alice, bob,",
+    MEMOS_USER_MAP: "me=alice,you=bob",
+    MEMOS_TOOL_RATE_LIMITS: "add_message=30/1m,*=100/h"
+  });
+  assert.deepEqual(config.userAllow, ["alice", "bob"]);
+  assert.deepEqual(config.userMap, { me: "alice", you: "bob" });
+  assert.deepEqual(config.toolRateLimits, { "add_message": "30/1m", "*": "100/h" });
+  assert.equal(config.redact, false);
+  assert.throws(() => loadConfig(["--config", file], { MEMOS_TOOL_RATE_LIMITS: "add_message=often" }), ConfigError);
+});
+
+test("invalid values fail with the setting and where it came from", () => {
+  assert.throws(() => loadConfig(["--config", file], { MEMOS_TIMEOUT_MS: "soon" }), (e: Error) => e instanceof ConfigError && /Invalid configuration: timeoutMs/.test(e.message));
+  assert.throws(() => loadConfig(["--config", configFile({ timeoutMs: "soon" })], {}), (e: Error) => e instanceof ConfigError && e.message.includes("config.json: timeoutMs"));
+  assert.throws(() => loadConfig(["--config", configFile({ unknownSetting: 1 })], {}), ConfigError);
+  assert.throws(() => loadConfig(["--config", file], { MEMOS_REDACT_ALLOW: "ok,/[a-/" }), (e: Error) => e instanceof ConfigError && e.message.includes("MEMOS_REDACT_ALLOW / --redact-allow: /[a-/"));
+});
+
+test("inconsistent settings are rejected after parsing", () => {
+  assert.throws(() => loadConfig(["--config", file], { MEMOS_MESSAGE_MAX_TOKENS: "9000", MEMOS_BATCH_MAX_TOKENS: "8000" }), /MEMOS_MESSAGE_MAX_TOKENS/);
+  assert.throws(() => loadConfig(["--config", file], { MEMOS_TOOL_PRESET: "custom" }), /MEMOS_TOOL_ALLOW/);
+});
+
+test("missing credentials are warnings, not errors", () => {
+  const { warnings } = loadConfig(["--config", file], {});
+  assert.ok(warnings.some(w => w.includes("MEMOS_API_KEY")));
+  assert.ok(warnings.some(w => w.includes("MEMOS_USER_ID")));
+  assert.deepEqual(loadConfig(["--config", file], { MEMOS_API_KEY: "key", MEMOS_USER_ID: "alice" }).warnings, []);
+});
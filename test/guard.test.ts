@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, mock, test } from "node:test"
+import assert from "node:assert/strict"
+import { ToolGuardError } from "../src/errors.js"
+import { IdempotencyKeys, parseRateLimit, ToolGuard, ToolGuardOptions } from "../src/guard.js"
+
+function guard(options: Partial<ToolGuardOptions> = {}): ToolGuard {
+  return new ToolGuard({ toolRateLimits: {}, toolConcurrency: {}, repeatMaxCalls: 0, repeatWindowMs: 0, ...options });
+}
+
+function refused(reason: ToolGuardError["reason"]) {
+  return (e: unknown) => e instanceof ToolGuardError && e.reason === reason;
+}
+
+beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 0 }));
+afterEach(() => mock.timers.reset());
+
+test("rate limits parse as calls per window", () => {
+  assert.deepEqual(parseRateLimit("30/1m"), { calls: 30, windowMs: 60_000 });
+  assert.deepEqual(parseRateLimit(" 10 / s "), { calls: 10, windowMs: 1000 });
+  assert.deepEqual(parseRateLimit("500/2H"), { calls: 500, windowMs: 7_200_000 });
+  assert.throws(() => parseRateLimit("often"), /Invalid rate limit/);
+});
+
+test("the rate limit counts calls per account and tool within the window", () => {
+  const g = guard({ toolRateLimits: { add_message: "2/1m", "*": "1/1m" } });
+  g.admit("a", "add_message", { n: 1 })();
+  g.admit("a", "add_message", { n: 2 })();
+  assert.throws(() => g.admit("a", "add_message", { n: 3 }), refused("rate_limit"));
+  g.admit("b", "add_message", { n: 3 })();
+  g.admit("a", "search_memory", {})();
+  assert.throws(() => g.admit("a", "search_memory", {}), refused("rate_limit"));
+
+  mock.timers.tick(60_000);
+  g.admit("a", "add_message", { n: 3 })();
+});
+
+test("concurrent calls are capped until one ends", () => {
+  const g = guard({ toolConcurrency: { add_kb_document: 1 } });
+  const end = g.admit("a", "add_kb_document", { n: 1 });
+  assert.throws(() => g.admit("a", "add_kb_document", { n: 2 }), refused("concurrency"));
+  g.admit("a", "add_message", {})();
+  end();
+  end();
+  const next = g.admit("a", "add_kb_document", { n: 2 });
+  assert.throws(() => g.admit("a", "add_kb_document", { n: 3 }), refused("concurrency"));
+  next();
+});
+
+test("identical calls are refused for tools that change something", () => {
+  const g = guard({ repeatMaxCalls: 2, repeatWindowMs: 10_000 });
+  g.admit("a", "delete_memory", { memory_ids: ["m1"], user_id: "u" })();
+  g.admit("a", "delete_memory", { user_id: "u", memory_ids: ["m1"] })();
+  assert.throws(() => g.admit("a", "delete_memory", { memory_ids: ["m1"], user_id: "u" }), refused("repeated_call"));
+  g.admit("a", "delete_memory", { memory_ids: ["m2"], user_id: "u" })();
+
+  mock.timers.tick(10_000);
+  g.admit("a", "delete_memory", { memory_ids: ["m1"], user_id: "u" })();
+});
+
+test("identical calls of read-only tools are allowed", () => {
+  const g = guard({ repeatMaxCalls: 1, repeatWindowMs: 10_000 });
+  for (let i = 0; i < 5; i++) g.admit("a", "get_kb_document_status", { file_ids: ["f1"] })();
+});
+
+test("a refused call is not counted", () => {
+  const g = guard({ toolRateLimits: { add_message: "1/1m" }, repeatMaxCalls: 1, repeatWindowMs: 120_000 });
+  g.admit("a", "add_message", { n: 1 })();
+  assert.throws(() => g.admit("a", "add_message", { n: 2 }), refused("rate_limit"));
+  mock.timers.tick(60_000);
+  g.admit("a", "add_message", { n: 2 })();
+});
+
+test("idempotency keys drop identical writes until released or expired", () => {
+  const keys = new IdempotencyKeys(60_000);
+  const key = IdempotencyKeys.key("a", "add_message", { user_id: "u", messages: [{ role: "user", content: "hi" }] });
+  assert.equal(key, IdempotencyKeys.key("a", "add_message", { messages: [{ content: "hi", role: "user" }], user_id: "u" }));
+  assert.notEqual(key, IdempotencyKeys.key("b", "add_message", { user_id: "u", messages: [{ role: "user", content: "hi" }] }));
+
+  assert.equal(keys.claim("add_message", key), undefined);
+  assert.equal(keys.claim("add_message", key)?.settled, false);
+  keys.settle(key, ["task-1"]);
+  assert.deepEqual(keys.claim("add_message", key)?.task_ids, ["task-1"]);
+
+  keys.release(key);
+  assert.equal(keys.claim("add_message", key), undefined);
+  mock.timers.tick(60_000);
+  assert.equal(keys.claim("add_message", key), undefined);
+  assert.equal(new IdempotencyKeys(0).claim("add_message", key), undefined);
+});
@@ -0,0 +1,118 @@
+import { beforeEach, test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { MemosService } from "../src/service.js"
+import { syncKnowledgeBase, SyncOptions } from "../src/sync.js"
+
+// Read by the first getConfig(), which syncKnowledgeBase calls.
+process.env.MEMOS_KB_SYNC_DIR = mkdtempSync(join(tmpdir(), "memos-kb-sync-"));
+
+/** Records uploads and deletions, and answers like the API with one file ID per upload. */
+class FakeService {
+  uploads: string[] = []
+  deletions: string[] = []
+  private next = 0
+
+  async resolveKnowledgeBase(idOrName: string) {
+    return idOrName === "Docs" ? "kb" : idOrName;
+  }
+
+  async addKbDocuments(_kb: string, files: { content: string, file_name: string }[]) {
+    this.uploads.push(...files.map(f => f.file_name));
+    return { code: 200, data: { file_detail_list: files.map(f => ({ id: `file-${++this.next}`, name: f.file_name })) } };
+  }
+
+  async deleteKbDocuments(ids: string[]) {
+    this.deletions.push(...ids);
+  }
+}
+
+let directory: string;
+let service: FakeService;
+
+function sync(options: Partial<SyncOptions> = {}) {
+  return syncKnowledgeBase(service as unknown as MemosService, { knowledgebase_id: "kb", directory, ...options });
+}
+
+function write(rel: string, content: string) {
+  mkdirSync(join(directory, rel, ".."), { recursive: true });
+  writeFileSync(join(directory, rel), content);
+}
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "memos-kb-folder-"));
+  service = new FakeService();
+  write("a.md", "alpha");
+  write("docs/b.md", "beta");
+  write(".git/config", "hidden");
+});
+
+test("the first sync uploads every file but hidden ones", async () => {
+  const result = await sync();
+  assert.deepEqual(result.added.sort(), ["a.md", "docs/b.md"]);
+  assert.deepEqual(service.uploads.sort(), ["a.md", "docs/b.md"]);
+  assert.equal(result.uploaded, 2);
+  assert.equal(result.deleted, 0);
+
+  const again = await sync();
+  assert.deepEqual([again.added, again.changed, again.removed, again.unchanged], [[], [], [], 2]);
+  assert.equal(service.uploads.length, 2);
+});
+
+test("changed files are uploaded again and their old copies deleted", async () => {
+  await sync();
+  write("a.md", "alpha, edited");
+  write("c.md", "gamma");
+  rmSync(join(directory, "docs/b.md"));
+
+  const result = await sync();
+  assert.deepEqual(result.added, ["c.md"]);
+  assert.deepEqual(result.changed, ["a.md"]);
+  assert.deepEqual(result.removed, ["docs/b.md"]);
+  assert.equal(result.unchanged, 0);
+  assert.deepEqual(service.uploads.slice(2), ["c.md", "a.md"]);
+  assert.deepEqual(service.deletions.sort(), ["file-1", "file-2"]);
+  assert.equal(result.deleted, 2);
+});
+
+test("a dry run computes the diff without touching the knowledge base", async () => {
+  await sync();
+  write("a.md", "alpha, edited");
+  const result = await sync({ dry_run: true });
+  assert.deepEqual(result.changed, ["a.md"]);
+  assert.equal(result.uploaded, 0);
+  assert.equal(service.uploads.length, 2);
+
+  assert.deepEqual((await sync()).changed, ["a.md"]);
+});
+
+test("removed files are kept until their deletion is confirmed", async () => {
+  await sync();
+  rmSync(join(directory, "a.md"));
+
+  let asked: string[] = [];
+  const refused = await sync({ confirmRemoval: async ids => { asked = ids; return false; } });
+  assert.deepEqual(refused.kept, ["a.md"]);
+  assert.equal(refused.deleted, 0);
+  assert.equal(service.deletions.length, 0);
+  assert.equal(asked.length, 1);
+
+  const confirmed = await sync({ confirmRemoval: async () => true });
+  assert.deepEqual(confirmed.removed, ["a.md"]);
+  assert.equal(confirmed.kept, undefined);
+  assert.deepEqual(service.deletions, asked);
+  assert.deepEqual((await sync()).removed, []);
+});
+
+test("a knowledge base given by name is synced under its ID", async () => {
+  await sync();
+  const result = await sync({ knowledgebase_id: "Docs" });
+  assert.equal(result.knowledgebase_id, "kb");
+  assert.equal(result.unchanged, 2);
+});
+
+test("a path that is not a directory is refused", async () => {
+  await assert.rejects(sync({ directory: join(directory, "a.md") }), /is not a directory/);
+});